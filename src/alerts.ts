@@ -0,0 +1,202 @@
+import {dayMs, getDateKey, getMedian} from './date';
+import {isInPeriod, Period} from './period';
+import {Transaction} from './types';
+
+export type AlertKind = 'category'|'newRecipient'|'duplicate'|'day';
+
+// Something unusual in a period's spending, compared to the user's history
+export interface SpendingAlert {
+  kind: AlertKind;
+  key: string;  // Stays the same across sessions, so dismissals stick
+  label: string;  // The category, merchant or day
+  amount: number;
+  // What is usual: the category's average for a period this long, the
+  // typical daily total, or the threshold a new recipient went over. Unused
+  // for duplicates.
+  usual: number;
+  transactions: Transaction[];
+}
+
+export interface AlertSettings {
+  categoryFactor: number;  // Times the trailing average
+  categoryMonths: number;  // How many months before the average covers
+  newRecipientAmount: number;  // First payments from this amount up
+  dayFactor: number;  // Times the typical daily total
+}
+
+export const defaultAlertSettings: AlertSettings = {
+  categoryFactor: 2,
+  categoryMonths: 6,
+  newRecipientAmount: 100,
+  dayFactor: 3
+};
+
+// A day's spending as `getDailyData` gives it, keyed by YYYY-MM-DD
+export interface DayTotal {
+  date: string;
+  amount: number;
+  transactions: Transaction[];
+}
+
+// Checks the expenses of one period against all expenses before it.
+// Amounts must all be in one currency. `dayTotals` covers the whole history.
+export function findAlerts(
+    expenses: Transaction[], period: Period, settings: AlertSettings,
+    getCategory: (t: Transaction) => string,
+    getMerchant: (t: Transaction) => string,
+    dayTotals: DayTotal[]): SpendingAlert[] {
+  const inPeriod = expenses.filter(t => isInPeriod(t.date, period));
+  const before =
+      expenses.filter(t => t.date.getTime() < period.start.getTime());
+
+  return [
+    ...findCategoryAlerts(inPeriod, before, period, settings, getCategory),
+    ...findNewRecipients(inPeriod, before, settings, getMerchant),
+    ...findDuplicates(inPeriod, getMerchant),
+    ...findBigDays(dayTotals, period, settings)
+  ];
+}
+
+// Categories well above their daily average over the months before, times
+// the period's length. Days before the history starts don't count towards
+// the average.
+function findCategoryAlerts(
+    inPeriod: Transaction[], before: Transaction[], period: Period,
+    settings: AlertSettings,
+    getCategory: (t: Transaction) => string): SpendingAlert[] {
+  if (before.length === 0) return [];
+  const start = period.start;
+  const firstTime = before.reduce(
+      (time, t) => Math.min(time, t.date.getTime()), Infinity);
+  const windowStart = new Date(Math.max(
+      new Date(start.getFullYear(), start.getMonth() - settings.categoryMonths,
+               start.getDate())
+          .getTime(),
+      firstTime));
+  const windowDays = getDays(windowStart, start);
+  if (windowDays < 1) return [];
+  const scale = getDays(start, period.end) / windowDays;
+
+  const totals = (transactions: Transaction[]) => {
+    const byCategory = new Map<string, Transaction[]>();
+    transactions.forEach(t => {
+      const category = getCategory(t);
+      if (!byCategory.has(category)) byCategory.set(category, []);
+      byCategory.get(category)!.push(t);
+    });
+    return byCategory;
+  };
+  const previous = totals(
+      before.filter(t => t.date.getTime() >= windowStart.getTime()));
+
+  const alerts: SpendingAlert[] = [];
+  totals(inPeriod).forEach((transactions, category) => {
+    const amount = sum(transactions);
+    const average = sum(previous.get(category) || []) * scale;
+    if (average > 0 && amount > average * settings.categoryFactor) {
+      alerts.push({
+        kind: 'category',
+        key: `category|${category}|${getDateKey(start)}|${
+            getDateKey(period.end)}`,
+        label: category,
+        amount,
+        usual: average,
+        transactions
+      });
+    }
+  });
+  return alerts;
+}
+
+// First payments to a merchant never paid before. Nothing counts as new
+// when the history starts with the period.
+function findNewRecipients(
+    inPeriod: Transaction[], before: Transaction[], settings: AlertSettings,
+    getMerchant: (t: Transaction) => string): SpendingAlert[] {
+  if (before.length === 0) return [];
+  const known = new Set(before.map(getMerchant));
+  const alerts: SpendingAlert[] = [];
+  [...inPeriod]
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .forEach(t => {
+        const merchant = getMerchant(t);
+        if (merchant === '' || known.has(merchant)) return;
+        known.add(merchant);
+        if (t.amount < settings.newRecipientAmount) return;
+        alerts.push({
+          kind: 'newRecipient',
+          key: `newRecipient|${merchant}|${getDateKey(t.date)}`,
+          label: merchant,
+          amount: t.amount,
+          usual: settings.newRecipientAmount,
+          transactions: [t]
+        });
+      });
+  return alerts;
+}
+
+// The same amount charged by the same merchant more than once in a day
+function findDuplicates(
+    inPeriod: Transaction[],
+    getMerchant: (t: Transaction) => string): SpendingAlert[] {
+  const groups = new Map<string, Transaction[]>();
+  inPeriod.forEach(t => {
+    const merchant = getMerchant(t);
+    if (merchant === '') return;
+    const key = `${merchant}|${getDateKey(t.date)}|${t.amount.toFixed(2)}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(t);
+  });
+
+  const alerts: SpendingAlert[] = [];
+  groups.forEach((transactions, key) => {
+    if (transactions.length < 2) return;
+    alerts.push({
+      kind: 'duplicate',
+      key: `duplicate|${key}`,
+      label: getMerchant(transactions[0]),
+      amount: transactions[0].amount,
+      usual: 0,
+      transactions
+    });
+  });
+  return alerts;
+}
+
+// Days in the period far above the median of all days with spending
+function findBigDays(
+    dayTotals: DayTotal[], period: Period,
+    settings: AlertSettings): SpendingAlert[] {
+  if (dayTotals.length === 0) return [];
+  const typical = getMedian(dayTotals.map(day => day.amount));
+
+  const startKey = getDateKey(period.start);
+  const endKey = getDateKey(period.end);
+  return dayTotals
+      .filter(
+          day => day.date >= startKey && day.date < endKey &&
+              day.amount > typical * settings.dayFactor)
+      .map(day => ({
+             kind: 'day' as const,
+             key: `day|${day.date}`,
+             label: day.date,
+             amount: day.amount,
+             usual: typical,
+             transactions: day.transactions
+           }));
+}
+
+function sum(transactions: Transaction[]): number {
+  return transactions.reduce((total, t) => total + t.amount, 0);
+}
+
+// Whole days between two dates, ignoring daylight saving changes
+function getDays(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / dayMs);
+}
+
+export function isAlertSettings(value: any): value is AlertSettings {
+  return !!value && typeof value === 'object' &&
+      (Object.keys(defaultAlertSettings) as (keyof AlertSettings)[])
+          .every(key => typeof value[key] === 'number' && value[key] >= 0);
+}
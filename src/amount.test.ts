@@ -0,0 +1,52 @@
+import {describe, expect, it} from 'vitest';
+
+import {defaultNumberFormat, NumberFormat, parseAmount} from './amount';
+
+const pointFormat: NumberFormat =
+    {decimalSeparator: '.', thousandsSeparator: ','};
+const spaceFormat: NumberFormat =
+    {decimalSeparator: ',', thousandsSeparator: ' '};
+
+describe('parseAmount', () => {
+  it('reads grouped and signed amounts', () => {
+    expect(parseAmount('1.234,56', defaultNumberFormat)).toBe(1234.56);
+    expect(parseAmount('-12,50', defaultNumberFormat)).toBe(-12.5);
+    expect(parseAmount('12,50-', defaultNumberFormat)).toBe(-12.5);
+    expect(parseAmount('(12,50)', defaultNumberFormat)).toBe(-12.5);
+    expect(parseAmount('+7', defaultNumberFormat)).toBe(7);
+  });
+
+  it('drops currency symbols and codes', () => {
+    expect(parseAmount('€ 1.234,56', defaultNumberFormat)).toBe(1234.56);
+    expect(parseAmount('12,50 EUR', defaultNumberFormat)).toBe(12.5);
+  });
+
+  it('takes the sign from a DR/CR marker', () => {
+    expect(parseAmount('DR 12,50', defaultNumberFormat)).toBe(-12.5);
+    expect(parseAmount('12,50 DR', defaultNumberFormat)).toBe(-12.5);
+    expect(parseAmount('12,50CR', defaultNumberFormat)).toBe(12.5);
+    expect(parseAmount('CR 1.234,56', defaultNumberFormat)).toBe(1234.56);
+  });
+
+  it('follows the given separators', () => {
+    expect(parseAmount('1,234.56', pointFormat)).toBe(1234.56);
+    expect(parseAmount('1 234,56', spaceFormat)).toBe(1234.56);
+    expect(parseAmount('1 234,56', spaceFormat)).toBe(1234.56);
+  });
+
+  it('rejects digits that are not grouped in threes', () => {
+    expect(parseAmount('12.5', defaultNumberFormat)).toBeNull();
+    expect(parseAmount('1.23.456', defaultNumberFormat)).toBeNull();
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(parseAmount('', defaultNumberFormat)).toBeNull();
+    expect(parseAmount('abc', defaultNumberFormat)).toBeNull();
+    expect(parseAmount('1,2,3', defaultNumberFormat)).toBeNull();
+    expect(parseAmount(NaN, defaultNumberFormat)).toBeNull();
+  });
+
+  it('returns spreadsheet numbers as they are', () => {
+    expect(parseAmount(-42.5, defaultNumberFormat)).toBe(-42.5);
+  });
+});
@@ -0,0 +1,73 @@
+export interface NumberFormat {
+  decimalSeparator: string;
+  thousandsSeparator: string;  // '' when amounts have no grouping
+}
+
+export const defaultNumberFormat: NumberFormat = {
+  decimalSeparator: ',',
+  thousandsSeparator: '.'
+};
+
+// Parses amounts like "1.234,56", "-12,50", "12,50-", "(12,50)",
+// "€ 1.234,56" or "DR 12,50", and "1 234,56" when the format groups
+// thousands with spaces. A DR/CR marker settles the sign on its own.
+// Spreadsheet cells that are already numbers are returned as is. Returns
+// null when the value isn't a number in the given format.
+export function parseAmount(value: unknown, format: NumberFormat): number|
+    null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+
+  let text = String(value ?? '').trim();
+  if (text === '') return null;
+
+  const marked =
+      /^(?:(DR|CR)(?![A-Z])\.?\s*(.+)|(.+?)\s*(?<![A-Z])(DR|CR)\.?)$/i.exec(
+          text);
+  const marker = marked ? (marked[1] || marked[4]).toUpperCase() : null;
+  if (marked) text = marked[2] ?? marked[3];
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+
+  // Drop currency codes and symbols, keeping the sign characters
+  text = text.replace(/[^\d\s.,'\-+−]/g, '').trim();
+
+  if (/^[-−]/.test(text)) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (/[-−]$/.test(text)) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  // Spaces used for grouping include non-breaking ones
+  const thousands = format.thousandsSeparator === ' ' ? /\s/g : null;
+  text = text.trim();
+  if (thousands) text = text.replace(thousands, ' ');
+
+  const [integer, fraction, ...rest] = text.split(format.decimalSeparator);
+  if (rest.length > 0 || !/^\d*$/.test(fraction ?? '')) return null;
+
+  // Grouped digits must come in threes, so "12.5" isn't read as 125
+  let digits = integer;
+  if (format.thousandsSeparator !== '' &&
+      integer.includes(format.thousandsSeparator.charAt(0))) {
+    const groups = integer.split(format.thousandsSeparator);
+    if (!/^\d{1,3}$/.test(groups[0]) ||
+        !groups.slice(1).every(g => /^\d{3}$/.test(g))) {
+      return null;
+    }
+    digits = groups.join('');
+  }
+
+  if (!/^\d*$/.test(digits) || (digits === '' && !fraction)) return null;
+
+  const amount = parseFloat(`${digits || '0'}.${fraction || '0'}`);
+  if (marker) return marker === 'DR' ? -amount : amount;
+  return negative ? -amount : amount;
+}
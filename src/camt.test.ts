@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import {describe, expect, it} from 'vitest';
+
+import {isCamt, parseCamt} from './camt';
+
+function document(entries: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>SI56191000000123438</IBAN></Id><Ccy>EUR</Ccy></Acct>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">100.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+      </Bal>
+      <Bal>
+        <Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp>
+        <Amt Ccy="EUR">50.00</Amt><CdtDbtInd>DBIT</CdtDbtInd>
+      </Bal>
+      ${entries}
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+}
+
+function entry(
+    amount: string, indicator: string, details = '', extra = ''): string {
+  return `<Ntry>
+    <Amt Ccy="EUR">${amount}</Amt><CdtDbtInd>${indicator}</CdtDbtInd>
+    ${extra}
+    <Sts>BOOK</Sts><BookgDt><Dt>2025-03-04</Dt></BookgDt>
+    <NtryDtls>${details}</NtryDtls>
+  </Ntry>`;
+}
+
+const payment = `<TxDtls>
+  <RltdPties>
+    <Cdtr><Nm>SPAR</Nm></Cdtr>
+    <CdtrAcct><Id><IBAN>SI56111</IBAN></Id></CdtrAcct>
+  </RltdPties>
+  <RmtInf><Ustrd>Groceries</Ustrd></RmtInf>
+</TxDtls>`;
+
+describe('isCamt', () => {
+  it('recognizes camt.053 and camt.052', () => {
+    expect(isCamt(document(''))).toBe(true);
+    expect(isCamt('<Document><BkToCstmrAcctRpt>')).toBe(true);
+    expect(isCamt('<OFX>')).toBe(false);
+  });
+});
+
+describe('parseCamt', () => {
+  it('reads the account and its signed balances', () => {
+    expect(parseCamt(document('')).accounts).toEqual([{
+      iban: 'SI56191000000123438',
+      currency: 'EUR',
+      openingBalance: 100,
+      closingBalance: -50
+    }]);
+  });
+
+  it('reads the counterparty of a payment', () => {
+    const [t] = parseCamt(document(entry('12.50', 'DBIT', payment)))
+                    .transactions;
+    expect(t).toEqual({
+      date: new Date(2025, 2, 4),
+      amount: 12.5,
+      description: 'Groceries',
+      recipient: 'SPAR',
+      type: 'expense',
+      account: 'SI56191000000123438',
+      currency: 'EUR',
+      counterpartyIban: 'SI56111'
+    });
+  });
+
+  it('splits batch bookings into their payments', () => {
+    const detail = (amount: string) =>
+        `<TxDtls><Amt Ccy="EUR">${amount}</Amt></TxDtls>`;
+    const {transactions} = parseCamt(
+        document(entry('30.00', 'DBIT', detail('10.00') + detail('20.00'))));
+    expect(transactions.map(t => t.amount)).toEqual([10, 20]);
+  });
+
+  it('books a reversal in the direction it states', () => {
+    const {accounts, transactions} = parseCamt(document(
+        entry('150.00', 'DBIT') +
+        entry('150.00', 'CRDT', '', '<RvslInd>true</RvslInd>') +
+        entry('150.00', 'DBIT')));
+    expect(transactions.map(t => t.type))
+        .toEqual(['expense', 'income', 'expense']);
+    const change = transactions.reduce(
+        (total, t) => total + (t.type === 'income' ? t.amount : -t.amount),
+        0);
+    expect(accounts[0].openingBalance! + change)
+        .toBe(accounts[0].closingBalance);
+  });
+
+  it('skips pending entries', () => {
+    const pending = entry('5.00', 'DBIT').replace('BOOK', 'PDNG');
+    expect(parseCamt(document(pending)).transactions).toEqual([]);
+  });
+
+  it('rejects broken XML', () => {
+    expect(() => parseCamt('<Document><Stmt>')).toThrow('Invalid camt XML');
+  });
+});
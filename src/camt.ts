@@ -0,0 +1,150 @@
+import {AccountStatement, ParsedStatement, Transaction} from './types';
+
+// camt.053 (end-of-day statement) and camt.052 (intraday account report)
+export function isCamt(text: string): boolean {
+  const start = text.slice(0, 2000);
+  return /urn:iso:std:iso:20022:tech:xsd:camt\.05[23]/.test(start) ||
+      start.includes('<BkToCstmrStmt') || start.includes('<BkToCstmrAcctRpt');
+}
+
+export function parseCamt(text: string): ParsedStatement {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid camt XML');
+  }
+
+  const result: ParsedStatement = {accounts: [], transactions: []};
+
+  // A document can hold statements for several accounts
+  const statements = [
+    ...Array.from(doc.getElementsByTagNameNS('*', 'Stmt')),
+    ...Array.from(doc.getElementsByTagNameNS('*', 'Rpt'))
+  ];
+  statements.forEach(statement => {
+    const iban = getText(statement, 'Acct', 'Id', 'IBAN') ||
+        getText(statement, 'Acct', 'Id', 'Othr', 'Id');
+    const currency = getText(statement, 'Acct', 'Ccy');
+    const account: AccountStatement = {iban, currency};
+
+    getChildren(statement, 'Bal').forEach(balance => {
+      const code = getText(balance, 'Tp', 'CdOrPrtry', 'Cd');
+      const amount = getSignedAmount(balance);
+      if (amount === null) return;
+      // Opening/closing booked balance, or the interim ones in camt.052
+      if (code === 'OPBD' ||
+          (code === 'ITBD' && account.openingBalance === undefined)) {
+        account.openingBalance = amount;
+      } else if (code === 'CLBD' || code === 'ITAV') {
+        account.closingBalance = amount;
+      }
+    });
+    result.accounts.push(account);
+
+    getChildren(statement, 'Ntry').forEach(entry => {
+      result.transactions.push(...parseEntry(entry, iban, currency));
+    });
+  });
+
+  return result;
+}
+
+function parseEntry(entry: Element, iban: string, accountCurrency: string):
+    Transaction[] {
+  // Pending and informational entries aren't booked yet
+  const status = getText(entry, 'Sts', 'Cd') || getText(entry, 'Sts');
+  if (status === 'PDNG' || status === 'INFO') return [];
+
+  const date = parseIsoDate(
+      getText(entry, 'BookgDt', 'Dt') || getText(entry, 'BookgDt', 'DtTm') ||
+      getText(entry, 'ValDt', 'Dt'));
+  if (!date) return [];
+
+  // On a reversal (RvslInd) this is already the direction of the reversal
+  // booking, so it is used as is
+  const isCredit = getText(entry, 'CdtDbtInd') === 'CRDT';
+
+  const details = getChildren(entry, 'NtryDtls')
+                      .flatMap(d => getChildren(d, 'TxDtls'));
+  const entryInfo = getText(entry, 'AddtlNtryInf');
+  const currency =
+      getChildren(entry, 'Amt')[0]?.getAttribute('Ccy') || accountCurrency;
+
+  // Batch bookings list each payment with its own amount
+  const splitAmounts = details.map(
+      d => parseFloat(
+          getText(d, 'AmtDtls', 'TxAmt', 'Amt') || getText(d, 'Amt')));
+  if (details.length > 1 && splitAmounts.every(a => !isNaN(a))) {
+    return details.map(
+        (d, i) => createTransaction(
+            date, splitAmounts[i], currency, isCredit, d, entryInfo, iban));
+  }
+
+  const amount = parseFloat(getText(entry, 'Amt'));
+  if (isNaN(amount)) return [];
+  return [
+    createTransaction(
+        date, amount, currency, isCredit, details[0], entryInfo, iban)
+  ];
+}
+
+function createTransaction(
+    date: Date, amount: number, currency: string, isCredit: boolean,
+    details: Element|undefined, entryInfo: string, iban: string): Transaction {
+  // The counterparty is the debtor for incoming and the creditor for
+  // outgoing payments
+  const party = isCredit ? 'Dbtr' : 'Cdtr';
+  const recipient = details ?
+      getText(details, 'RltdPties', party, 'Nm') ||
+          getText(details, 'RltdPties', party, 'Pty', 'Nm') :
+      '';
+  const counterpartyIban = details ?
+      getText(details, 'RltdPties', `${party}Acct`, 'Id', 'IBAN') :
+      '';
+
+  const remittance = details ?
+      getChildren(details, 'RmtInf')
+          .flatMap(r => getChildren(r, 'Ustrd'))
+          .map(u => (u.textContent || '').trim())
+          .join(' ') ||
+          getText(details, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref') ||
+          getText(details, 'AddtlTxInf') :
+      '';
+
+  return {
+    date,
+    amount: Math.abs(amount),
+    description: remittance || entryInfo || recipient || 'Unknown',
+    recipient: recipient || 'Unknown',
+    type: isCredit ? 'income' : 'expense',
+    account: iban || undefined,
+    currency: currency || undefined,
+    counterpartyIban: counterpartyIban || undefined
+  };
+}
+
+function getSignedAmount(balance: Element): number|null {
+  const amount = parseFloat(getText(balance, 'Amt'));
+  if (isNaN(amount)) return null;
+  return getText(balance, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+// Direct children by local name, so any camt namespace version works
+function getChildren(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function getText(parent: Element, ...path: string[]): string {
+  let current: Element|undefined = parent;
+  for (const name of path) {
+    current = current && getChildren(current, name)[0];
+  }
+  return current ? (current.textContent || '').trim() : '';
+}
+
+// Dates are YYYY-MM-DD, date-times add a time and offset that we ignore
+function parseIsoDate(value: string): Date|null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  return new Date(
+      parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+}
@@ -0,0 +1,104 @@
+import {Transaction} from './types';
+
+// A transaction's text with the category the user picked for it
+export interface LabelledTransaction {
+  category: string;
+  type: Transaction['type'];
+  description: string;
+  recipient: string;
+}
+
+// A guessed category and the probability the classifier gives it, 0 to 1
+export interface CategorySuggestion {
+  category: string;
+  confidence: number;
+}
+
+interface CategoryCounts {
+  examples: number;
+  tokens: number;
+  tokenCounts: Map<string, number>;
+}
+
+// Multinomial naive Bayes over description and recipient words. Income and
+// expenses are learnt separately, since they never share a category.
+export interface CategoryModel {
+  categories: {[type in Transaction['type']]: Map<string, CategoryCounts>};
+  vocabulary: Set<string>;
+}
+
+// Words without digits, so reference numbers and dates don't count.
+// Recipient words are kept apart from the same words in a description.
+export function getTokens(t: {description: string, recipient: string}):
+    string[] {
+  const words = (text: string) =>
+      (text || '')
+          .toUpperCase()
+          .split(/[^\p{L}\p{N}]+/u)
+          .filter(word => word.length > 1 && !/\d/.test(word));
+  return [
+    ...words(t.description), ...words(t.recipient).map(word => `@${word}`)
+  ];
+}
+
+export function trainClassifier(examples: LabelledTransaction[]):
+    CategoryModel {
+  const model: CategoryModel = {
+    categories: {expense: new Map(), income: new Map()},
+    vocabulary: new Set()
+  };
+
+  examples.forEach(example => {
+    const categories = model.categories[example.type];
+    let counts = categories.get(example.category);
+    if (!counts) {
+      counts = {examples: 0, tokens: 0, tokenCounts: new Map()};
+      categories.set(example.category, counts);
+    }
+    counts.examples++;
+    getTokens(example).forEach(token => {
+      counts!.tokens++;
+      counts!.tokenCounts.set(token, (counts!.tokenCounts.get(token) || 0) + 1);
+      model.vocabulary.add(token);
+    });
+  });
+
+  return model;
+}
+
+// Returns null when there is nothing to choose between, or none of the
+// transaction's words were seen in training
+export function suggestCategory(model: CategoryModel, t: Transaction):
+    CategorySuggestion|null {
+  const categories = Array.from(model.categories[t.type]);
+  if (categories.length < 2) return null;
+
+  const tokens = getTokens(t).filter(token => model.vocabulary.has(token));
+  if (tokens.length === 0) return null;
+
+  // Log probabilities with add-one smoothing
+  const totalExamples = categories.reduce((sum, [, c]) => sum + c.examples, 0);
+  const scores = categories.map(([category, counts]) => {
+    let score = Math.log(counts.examples / totalExamples);
+    tokens.forEach(token => {
+      score += Math.log(
+          ((counts.tokenCounts.get(token) || 0) + 1) /
+          (counts.tokens + model.vocabulary.size));
+    });
+    return {category, score};
+  });
+
+  const best = scores.reduce((a, b) => b.score > a.score ? b : a);
+  const total =
+      scores.reduce((sum, s) => sum + Math.exp(s.score - best.score), 0);
+  return {category: best.category, confidence: 1 / total};
+}
+
+export function isLabelledTransaction(value: any):
+    value is LabelledTransaction {
+  return !!value && typeof value === 'object' &&
+      typeof value.category === 'string' && value.category !== '' &&
+      ['income', 'expense'].includes(value.type) &&
+      typeof value.description === 'string' &&
+      typeof value.recipient === 'string';
+}
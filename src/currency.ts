@@ -0,0 +1,112 @@
+import {getDateKey, parseDate} from './date';
+
+// How many units of `to` one unit of `from` bought on the given date
+export interface ExchangeRate {
+  date: string;  // YYYY-MM-DD
+  from: string;
+  to: string;
+  rate: number;
+}
+
+// Symbols and local abbreviations banks write instead of ISO codes
+const currencyAliases: {[alias: string]: string} = {
+  '€': 'EUR',
+  '$': 'USD',
+  'US$': 'USD',
+  '£': 'GBP',
+  'DIN': 'RSD',
+  'DIN.': 'RSD',
+  'KM': 'BAM',
+  'KN': 'HRK',
+  'FR.': 'CHF'
+};
+
+const currencySymbols: {[code: string]: string} = {
+  'EUR': '€',
+  'USD': '$',
+  'GBP': '£'
+};
+
+// Turns "€", "eur" or "din." into an ISO 4217 code; unknown values are kept
+// in upper case
+export function normalizeCurrency(value: string): string {
+  const text = value.trim().toUpperCase();
+  return currencyAliases[text] || text;
+}
+
+// Prefix shown before amounts, e.g. "€" or "RSD"
+export function getCurrencySymbol(code: string): string {
+  return currencySymbols[code] || code;
+}
+
+export function isExchangeRate(value: any): value is ExchangeRate {
+  return !!value && typeof value === 'object' &&
+      /^\d{4}-\d{2}-\d{2}$/.test(value.date) && typeof value.from === 'string' &&
+      value.from !== '' && typeof value.to === 'string' && value.to !== '' &&
+      typeof value.rate === 'number' && value.rate > 0;
+}
+
+// Returns the rate for converting `from` into `to` on the given date, or
+// null when no rate connects the two. A date uses the latest rate on or
+// before it (or the earliest one after it); pairs are also used inverted, and
+// through one other currency when there is no direct rate.
+export function findRate(
+    rates: ExchangeRate[], from: string, to: string, date: string): number|
+    null {
+  if (from === to) return 1;
+
+  const direct = findPairRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  const currencies = new Set(rates.flatMap(r => [r.from, r.to]));
+  for (const via of Array.from(currencies)) {
+    if (via === from || via === to) continue;
+    const first = findPairRate(rates, from, via, date);
+    const second = first === null ? null : findPairRate(rates, via, to, date);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+function findPairRate(
+    rates: ExchangeRate[], from: string, to: string, date: string): number|
+    null {
+  const candidates: {date: string, rate: number}[] = [];
+  rates.forEach(r => {
+    if (r.from === from && r.to === to) {
+      candidates.push({date: r.date, rate: r.rate});
+    } else if (r.from === to && r.to === from) {
+      candidates.push({date: r.date, rate: 1 / r.rate});
+    }
+  });
+  candidates.sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return null;
+
+  const earlier = candidates.filter(c => c.date <= date);
+  return earlier.length > 0 ? earlier[earlier.length - 1].rate :
+                              candidates[0].rate;
+}
+
+// Reads "date,from,to,rate" lines such as "2025-03-31,USD,EUR,0.92". Lines
+// may also be separated by semicolons or tabs, in which case the rate can use
+// a decimal comma. Header and unreadable lines are skipped.
+export function parseExchangeRatesCsv(text: string): ExchangeRate[] {
+  const rates: ExchangeRate[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const cells = line.split(/[;\t]/.test(line) ? /[;\t]/ : ',')
+                      .map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (cells.length < 4) return;
+
+    const date = parseDate(cells[0], 'auto');
+    const rate = parseFloat(cells[3].replace(',', '.'));
+    if (!date || !(rate > 0)) return;
+
+    rates.push({
+      date: getDateKey(date),
+      from: normalizeCurrency(cells[1]),
+      to: normalizeCurrency(cells[2]),
+      rate
+    });
+  });
+  return rates.filter(r => r.from !== '' && r.to !== '');
+}
@@ -0,0 +1,76 @@
+import {describe, expect, it} from 'vitest';
+
+import {autoMonthFirst, getDateKey, getMedian, parseDate,
+        resolveDateFormat} from './date';
+
+describe('parseDate', () => {
+  it('reads the given format', () => {
+    expect(parseDate('04.03.2025', 'dd.mm.yyyy'))
+        .toEqual(new Date(2025, 2, 4));
+    expect(parseDate('3/4/2025', 'mm/dd/yyyy')).toEqual(new Date(2025, 2, 4));
+    expect(parseDate('04.03.25', 'dd.mm.yy')).toEqual(new Date(2025, 2, 4));
+  });
+
+  it('ignores a time after the date', () => {
+    expect(parseDate('04.03.2025 14:30', 'dd.mm.yyyy HH:MM'))
+        .toEqual(new Date(2025, 2, 4));
+    expect(parseDate('2025-03-04T14:30:00', 'yyyy-mm-dd'))
+        .toEqual(new Date(2025, 2, 4));
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseDate('31.02.2025', 'dd.mm.yyyy')).toBeNull();
+    expect(parseDate('2025-13-01', 'yyyy-mm-dd')).toBeNull();
+    expect(parseDate('', 'auto')).toBeNull();
+  });
+
+  it('reads Excel serials and Unix timestamps with any format', () => {
+    expect(parseDate(45720, 'dd.mm.yyyy')).toEqual(new Date(2025, 2, 4));
+    expect(parseDate('45720', 'dd.mm.yyyy')).toEqual(new Date(2025, 2, 4));
+    const timestamp = new Date(2025, 2, 4, 12).getTime();
+    expect(parseDate(timestamp, 'auto')).toEqual(new Date(2025, 2, 4));
+  });
+
+  it('tries the common formats for auto, day first', () => {
+    expect(parseDate('2025-03-04', 'auto')).toEqual(new Date(2025, 2, 4));
+    expect(parseDate('04.03.2025', 'auto')).toEqual(new Date(2025, 2, 4));
+    expect(parseDate('04/03/2025', 'auto')).toEqual(new Date(2025, 2, 4));
+  });
+});
+
+describe('resolveDateFormat', () => {
+  it('reads a column as month first when a second part is above 12', () => {
+    const format = resolveDateFormat(['03/04/2024', '12/31/2024'], 'auto');
+    expect(format).toBe(autoMonthFirst);
+    expect(parseDate('03/04/2024', format)).toEqual(new Date(2024, 2, 4));
+    expect(parseDate('12/31/2024', format)).toEqual(new Date(2024, 11, 31));
+  });
+
+  it('keeps day first when the column says so or never tells', () => {
+    expect(resolveDateFormat(['03/04/2024', '31/12/2024'], 'auto'))
+        .toBe('auto');
+    expect(resolveDateFormat(['03/04/2024', '05/06/2024'], 'auto'))
+        .toBe('auto');
+    expect(resolveDateFormat(['13/01/2024', '01/13/2024'], 'auto'))
+        .toBe('auto');
+  });
+
+  it('leaves fixed formats alone', () => {
+    expect(resolveDateFormat(['12/31/2024'], 'dd/mm/yyyy'))
+        .toBe('dd/mm/yyyy');
+  });
+});
+
+describe('getDateKey', () => {
+  it('pads the month and day', () => {
+    expect(getDateKey(new Date(2025, 0, 5))).toBe('2025-01-05');
+  });
+});
+
+describe('getMedian', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(getMedian([3, 1, 2])).toBe(2);
+    expect(getMedian([4, 1, 3, 2])).toBe(2.5);
+    expect(getMedian([])).toBeNaN();
+  });
+});
@@ -0,0 +1,146 @@
+// Excel stores dates as days since 1899-12-30 (which absorbs its 1900 leap
+// year bug); anything in this range is treated as a serial date
+const minExcelSerial = 20000;  // 1954
+const maxExcelSerial = 73051;  // 2100
+
+const minYear = 1950;
+const maxYear = 2100;
+
+export const dayMs = 24 * 60 * 60 * 1000;
+
+// Day and month may drop their leading zero in any format
+const tokenPatterns: {[token: string]: string} = {
+  'yyyy': '(\\d{4})',
+  'yy': '(\\d{2})',
+  'mm': '(\\d{1,2})',
+  'm': '(\\d{1,2})',
+  'dd': '(\\d{1,2})',
+  'd': '(\\d{1,2})'
+};
+
+// Tried in order when a bank has no fixed date format
+const fallbackFormats = ['yyyy-mm-dd', 'dd.mm.yyyy', 'dd/mm/yyyy', 'dd.mm.yy'];
+
+// 'auto' for a column whose slashed dates put the month first, as US
+// exports do
+export const autoMonthFirst = 'auto-month-first';
+const monthFirstFormats =
+    ['yyyy-mm-dd', 'dd.mm.yyyy', 'mm/dd/yyyy', 'dd.mm.yy'];
+
+// Settles 'auto' for a whole date column, since a single "03/04/2024" could
+// be either order: a part above 12 can only be the day. Columns that never
+// tell, or contradict themselves, stay day first.
+export function resolveDateFormat(values: unknown[], format: string): string {
+  if (format !== 'auto') return format;
+
+  let dayFirst = false;
+  let monthFirst = false;
+  values.forEach(value => {
+    if (typeof value !== 'string') return;
+    const match = /^(\d{1,2})\/(\d{1,2})\/\d{4}/.exec(value.trim());
+    if (!match) return;
+    if (parseInt(match[1]) > 12) dayFirst = true;
+    if (parseInt(match[2]) > 12) monthFirst = true;
+  });
+  return monthFirst && !dayFirst ? autoMonthFirst : format;
+}
+
+// Parses a statement date in the given format, e.g. "dd.mm.yyyy",
+// "yyyy-mm-dd", "dd.mm.yy" or "mm/dd/yyyy". A time after the date (as in
+// "dd.mm.yyyy HH:MM") is accepted and ignored. Spreadsheet dates, Excel serial
+// numbers and Unix timestamps work with any format. Returns null for values
+// that aren't a real date.
+export function parseDate(value: unknown, format: string): Date|null {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : toLocalDay(value);
+  }
+  if (typeof value === 'number') return parseNumericDate(value);
+
+  const text = String(value ?? '').trim();
+  if (text === '') return null;
+
+  const formats = format === 'auto' ? fallbackFormats :
+      format === autoMonthFirst    ? monthFirstFormats :
+                                     [format];
+  for (const f of formats) {
+    const date = parseWithFormat(text, f);
+    if (date) return date;
+  }
+
+  // Serials and timestamps can also arrive as text in CSV exports
+  if (/^\d+(\.\d+)?$/.test(text)) return parseNumericDate(parseFloat(text));
+
+  return null;
+}
+
+function parseNumericDate(value: number): Date|null {
+  if (value >= minExcelSerial && value <= maxExcelSerial) {
+    return inRange(new Date(1899, 11, 30 + Math.floor(value)));
+  }
+  // Unix timestamps in seconds or milliseconds
+  if (value >= 1e9 && value < 1e11) return toLocalDay(new Date(value * 1000));
+  if (value >= 1e11 && value < 1e14) return toLocalDay(new Date(value));
+  return null;
+}
+
+function parseWithFormat(text: string, format: string): Date|null {
+  // Only the date part of the format matters, the time is ignored
+  const datePart = format.trim().split(/\s|T(?=[Hh])/)[0];
+
+  const tokens: string[] = [];
+  const pattern = datePart.replace(
+      /yyyy|yy|mm|m|dd|d|[.*+?^${}()|[\]\\]/g, match => {
+        if (!(match in tokenPatterns)) return '\\' + match;
+        tokens.push(match);
+        return tokenPatterns[match];
+      });
+
+  const match = new RegExp(`^${pattern}(?:[ T].*)?$`).exec(text);
+  if (!match) return null;
+
+  let year = NaN;
+  let month = NaN;
+  let day = NaN;
+  tokens.forEach((token, i) => {
+    const number = parseInt(match[i + 1]);
+    if (token === 'yyyy') year = number;
+    if (token === 'yy') year = number < 70 ? 2000 + number : 1900 + number;
+    if (token.startsWith('m')) month = number;
+    if (token.startsWith('d')) day = number;
+  });
+
+  return validDate(year, month, day);
+}
+
+// Rejects impossible dates such as 31.02. instead of letting them roll over
+function validDate(year: number, month: number, day: number): Date|null {
+  if (isNaN(year) || month < 1 || month > 12 || day < 1) return null;
+
+  const date = new Date(year, month - 1, day);
+  return date.getDate() === day ? inRange(date) : null;
+}
+
+function toLocalDay(date: Date): Date|null {
+  return inRange(new Date(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+// YYYY-MM-DD in local time
+export function getDateKey(date: Date): string {
+  return `${date.getFullYear()}-${
+      String(date.getMonth() + 1).padStart(2, '0')}-${
+      String(date.getDate()).padStart(2, '0')}`;
+}
+
+// NaN for no values
+export function getMedian(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] :
+                                   (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function inRange(date: Date): Date|null {
+  const year = date.getFullYear();
+  return year >= minYear && year <= maxYear ? date : null;
+}
@@ -0,0 +1,56 @@
+import {describe, expect, it} from 'vitest';
+
+import {decodeText, detectEncoding, isBinaryWorkbook} from './encoding';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('detectEncoding', () => {
+  it('trusts byte order marks', () => {
+    expect(detectEncoding(bytes(0xEF, 0xBB, 0xBF, 0x41)).encoding)
+        .toBe('utf-8');
+    expect(detectEncoding(bytes(0xFF, 0xFE, 0x41, 0x00)).encoding)
+        .toBe('utf-16le');
+    expect(detectEncoding(bytes(0xFE, 0xFF, 0x00, 0x41)).encoding)
+        .toBe('utf-16be');
+  });
+
+  it('reads valid UTF-8 as UTF-8', () => {
+    expect(detectEncoding(new TextEncoder().encode('Plača; Čevapi')))
+        .toEqual({encoding: 'utf-8', confident: true});
+  });
+
+  it('tells the 8-bit codepages apart by their letters', () => {
+    // "Šola" in Windows-1250
+    expect(detectEncoding(bytes(0x8A, 0x6F, 0x6C, 0x61)))
+        .toEqual({encoding: 'windows-1250', confident: true});
+    // "Città" in Windows-1252
+    expect(detectEncoding(bytes(0x43, 0x69, 0x74, 0x74, 0xE0)))
+        .toEqual({encoding: 'windows-1252', confident: true});
+    // "Плата" in Windows-1251
+    expect(detectEncoding(bytes(0xCF, 0xEB, 0xE0, 0xF2, 0xE0)))
+        .toEqual({encoding: 'windows-1251', confident: true});
+  });
+
+  it('is not confident when the letters do not tell', () => {
+    // "é" reads the same in Windows-1250 and Windows-1252
+    expect(detectEncoding(bytes(0x43, 0x61, 0x66, 0xE9)))
+        .toEqual({encoding: 'windows-1250', confident: false});
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes with the given encoding', () => {
+    expect(decodeText(bytes(0x8A, 0x6F, 0x6C, 0x61), 'windows-1250'))
+        .toBe('Šola');
+    expect(decodeText(ascii('Datum'), 'utf-8')).toBe('Datum');
+  });
+});
+
+describe('isBinaryWorkbook', () => {
+  it('recognizes .xlsx and .xls signatures', () => {
+    expect(isBinaryWorkbook(bytes(0x50, 0x4B, 0x03, 0x04))).toBe(true);
+    expect(isBinaryWorkbook(bytes(0xD0, 0xCF, 0x11, 0xE0))).toBe(true);
+    expect(isBinaryWorkbook(ascii('Datum;Opis'))).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+export type TextEncoding = 'utf-8'|'utf-16le'|'utf-16be'|'windows-1250'|
+    'windows-1251'|'windows-1252';
+
+export interface EncodingGuess {
+  encoding: TextEncoding;
+  // False when the bytes don't tell the 8-bit codepages apart, so the bank's
+  // default encoding should be preferred
+  confident: boolean;
+}
+
+export const encodingLabels: {[encoding in TextEncoding]: string} = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1250': 'Central European (Windows-1250)',
+  'windows-1251': 'Cyrillic (Windows-1251)',
+  'windows-1252': 'Western European (Windows-1252)'
+};
+
+// Excel codepage numbers, used for binary .xls files
+const codepages: {[encoding in TextEncoding]: number} = {
+  'utf-8': 65001,
+  'utf-16le': 1200,
+  'utf-16be': 1201,
+  'windows-1250': 1250,
+  'windows-1251': 1251,
+  'windows-1252': 1252
+};
+
+// Bytes for letters that only appear in one of the Latin codepages:
+// Š Ž š ž Ć Đ ć đ in Windows-1250 and À Ì Ò Ù à ì ò ù in Windows-1252
+const centralEuropeanBytes =
+    new Set([0x8A, 0x8E, 0x9A, 0x9E, 0xC6, 0xD0, 0xE6, 0xF0]);
+const westernEuropeanBytes =
+    new Set([0xC0, 0xCC, 0xD2, 0xD9, 0xE0, 0xEC, 0xF2, 0xF9]);
+
+export function getCodepage(encoding: TextEncoding): number {
+  return codepages[encoding];
+}
+
+// True for .xlsx (zip) and .xls (OLE compound file) workbooks, which carry
+// their own encoding
+export function isBinaryWorkbook(bytes: Uint8Array): boolean {
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 &&
+      bytes[3] === 0x04;
+  const isOle = bytes[0] === 0xD0 && bytes[1] === 0xCF && bytes[2] === 0x11 &&
+      bytes[3] === 0xE0;
+  return isZip || isOle;
+}
+
+export function detectEncoding(bytes: Uint8Array): EncodingGuess {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return {encoding: 'utf-8', confident: true};
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return {encoding: 'utf-16le', confident: true};
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return {encoding: 'utf-16be', confident: true};
+  }
+
+  // Plain ASCII reads the same in every encoding
+  if (bytes.every(b => b < 0x80)) {
+    return {encoding: 'utf-8', confident: true};
+  }
+
+  try {
+    new TextDecoder('utf-8', {fatal: true}).decode(bytes);
+    return {encoding: 'utf-8', confident: true};
+  } catch {
+    // Not UTF-8, so one of the 8-bit codepages
+  }
+
+  let highBytes = 0;
+  let highRunBytes = 0;
+  let centralEuropean = 0;
+  let westernEuropean = 0;
+
+  bytes.forEach((b, i) => {
+    if (b < 0x80) return;
+    highBytes++;
+    // Cyrillic words are made of high bytes only, while Latin text has
+    // isolated accented letters between ASCII ones
+    if (bytes[i - 1] >= 0x80 || bytes[i + 1] >= 0x80) {
+      highRunBytes++;
+    }
+    if (centralEuropeanBytes.has(b)) centralEuropean++;
+    if (westernEuropeanBytes.has(b)) westernEuropean++;
+  });
+
+  if (highRunBytes / highBytes > 0.5) {
+    return {encoding: 'windows-1251', confident: true};
+  }
+  if (centralEuropean > westernEuropean) {
+    return {encoding: 'windows-1250', confident: true};
+  }
+  if (westernEuropean > centralEuropean) {
+    return {encoding: 'windows-1252', confident: true};
+  }
+  return {encoding: 'windows-1250', confident: false};
+}
+
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  // TextDecoder drops the byte order mark by itself
+  return new TextDecoder(encoding).decode(bytes);
+}
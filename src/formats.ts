@@ -0,0 +1,37 @@
+import {isCamt, parseCamt} from './camt';
+import {isMt940, parseMt940} from './mt940';
+import {isOfx, parseOfx} from './ofx';
+import {ParsedStatement} from './types';
+
+// Structured statement files that are parsed directly instead of going
+// through the spreadsheet column mapping. The parser worker detects and
+// parses them, except for formats that need the page.
+export interface StatementFormat {
+  name: string;
+  fileTypes: string;  // Shown in the upload area
+  detect: (text: string) => boolean;
+  parse: (text: string) => ParsedStatement;
+  parseOnPage?: boolean;  // Needs DOMParser, which workers don't have
+}
+
+export const statementFormats: {[key: string]: StatementFormat} = {
+  'ofx': {
+    name: 'OFX/QFX',
+    fileTypes: '.ofx/.qfx',
+    detect: isOfx,
+    parse: parseOfx
+  },
+  'camt': {
+    name: 'ISO 20022 camt.053/052',
+    fileTypes: 'camt .xml',
+    detect: isCamt,
+    parse: parseCamt,
+    parseOnPage: true
+  },
+  'mt940': {
+    name: 'SWIFT MT940',
+    fileTypes: 'MT940 (.sta/.mt940/.txt)',
+    detect: isMt940,
+    parse: parseMt940
+  }
+};
@@ -1,5 +1,34 @@
 import Chart from 'chart.js/auto';
-import * as XLSX from 'xlsx';
+
+import {encodingLabels, TextEncoding} from './encoding';
+import {defaultNumberFormat} from './amount';
+import {CategoryModel, CategorySuggestion, isLabelledTransaction,
+        LabelledTransaction, suggestCategory,
+        trainClassifier} from './classifier';
+import {ExchangeRate, findRate, getCurrencySymbol, isExchangeRate,
+        normalizeCurrency, parseExchangeRatesCsv} from './currency';
+import {getDateKey} from './date';
+import {statementFormats} from './formats';
+import {BackgroundParser, WorkbookImport} from './parser';
+import {getMerchantName, isMerchantAlias, MerchantAlias, normalizeRecipient,
+        suggestMerchantClusters} from './merchants';
+import {Cadence, detectSubscriptions, Subscription} from './recurring';
+import {AlertSettings, defaultAlertSettings, findAlerts, isAlertSettings,
+        SpendingAlert} from './alerts';
+import {getCustomPeriod, getPeriods, isInPeriod, Period,
+        PeriodKind} from './period';
+import {getTrends, Trends} from './trends';
+import {getRefundTotals, isManualRefundLinks, linkRefunds,
+        ManualRefundLinks} from './refunds';
+import {categorize, CategoryRule, fallbackCategories, getDefaultRules,
+        getRuleRegex, isCategoryRule, joinCategory, matchesRule, RuleField,
+        RuleMatch, splitCategory} from './rules';
+import {findHeaderRow, formatCell, maxHeaderRowScan, previewRowCount,
+        ProgressCallback, RawSheet, RawWorkbook, scoreHeaders} from './sheet';
+import {findTransfers, isOwnAccount, normalizeIban,
+        OwnAccount} from './transfers';
+import {AccountStatement, BalanceRow, BankConfig, ParsedData, RowIssue,
+        Transaction} from './types';
 
 import bankBeeLogo from './assets/images/Bank-Bee.png';
 import ersteLogo from './assets/images/erste-bank-logo.jpg';
@@ -7,28 +36,17 @@ import nkbmOtpLogo from './assets/images/nkbm-otp-logo.webp';
 import nlbLogo from './assets/images/nlb-bank.webp';
 import intesaLogo from './assets/images/sanpaolo.jpg';
 
-interface ParsedData {
-  sheetName: string;
-  headers: string[];
-  rows: any[][];
-}
-
-interface Transaction {
-  date: Date;
-  amount: number;
-  description: string;
-  recipient: string;
-  type: 'income'|'expense';
-}
-
 interface MonthlySpending {
   [category: string]: number;
 }
 
+// Slices at one level of the category tree, by label
 interface CategoryData {
-  [category: string]: {
+  [label: string]: {
+    category: string;  // Full name, e.g. "Food > Groceries"
     amount: number;
     transactions: Transaction[];
+    hasChildren: boolean;
   };
 }
 
@@ -45,16 +63,49 @@ interface DailyData {
   transactions: Transaction[];
 }
 
-interface BankConfig {
-  name: string;
-  logo: string;
-  dateColumn: string;
-  incomeColumn: string;
-  expenseColumn: string;
-  descriptionColumn: string;
-  recipientColumn: string;
-  dateFormat: string;
+// End-of-day account balance
+interface BalancePoint {
+  date: Date;
+  balance: number;
+  mismatch: boolean;  // The balance didn't add up on this day
+}
+
+interface BalanceSeries {
   currency: string;
+  points: Map<string, BalancePoint>;  // By date key
+}
+
+// Custom configs are stored without a logo. When incomeColumn and
+// expenseColumn are the same, it holds a signed amount (like Erste Bank).
+type StoredBankConfig = Omit<BankConfig, 'logo'>;
+
+// A file in a structured format (OFX, camt, MT940) rather than a spreadsheet
+interface Statement {
+  formatKey: string;
+  encoding: TextEncoding;
+  transactions: Transaction[];
+  accounts?: AccountStatement[];
+  issues?: RowIssue[];
+}
+
+interface ImportSummary {
+  fileName: string;
+  fileSize: number;
+  bankName?: string;
+  bankDetected?: boolean;  // Recognized from the file, not picked by the user
+  encoding?: TextEncoding;
+  accounts?: AccountStatement[];
+  merged: number;
+  skipped: number;
+  issues: RowIssue[];
+  mismatches: RowIssue[];  // Rows whose reported balance doesn't add up
+  error?: string;
+}
+
+interface BankMatch {
+  bankKey: string;
+  headerRowIndex: number;
+  confidence: number;
 }
 
 const bankConfigs: {[key: string]: BankConfig} = {
@@ -67,7 +118,11 @@ const bankConfigs: {[key: string]: BankConfig} = {
     descriptionColumn: 'NAMEN',
     recipientColumn: 'UDELE.*NAZIV',
     dateFormat: 'dd.mm.yyyy',
-    currency: '€'
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    currency: '€',
+    balanceColumn: 'STANJE',
+    encoding: 'windows-1250'
   },
   'nlb': {
     name: 'NLB',
@@ -78,7 +133,10 @@ const bankConfigs: {[key: string]: BankConfig} = {
     descriptionColumn: 'Namen',
     recipientColumn: 'Prejemnik',
     dateFormat: 'dd.mm.yyyy',
-    currency: '€'
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    currency: '€',
+    encoding: 'windows-1250'
   },
   'intesa': {
     name: 'Intesa Sanpaolo',
@@ -89,7 +147,11 @@ const bankConfigs: {[key: string]: BankConfig} = {
     descriptionColumn: 'Descrizione',
     recipientColumn: 'Beneficiario',
     dateFormat: 'dd/mm/yyyy',
-    currency: '€'
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    currency: '€',
+    balanceColumn: 'Saldo',
+    encoding: 'windows-1252'
   },
   'erste': {
     name: 'Erste Bank',
@@ -100,14 +162,263 @@ const bankConfigs: {[key: string]: BankConfig} = {
     descriptionColumn: 'Opis',
     recipientColumn: 'Opis',
     dateFormat: 'dd.mm.yyyy',
-    currency: 'RSD'
+    decimalSeparator: ',',
+    thousandsSeparator: '.',
+    currency: 'RSD',
+    encoding: 'windows-1250'
   }
 };
 
+const customBankStorageKey = 'bankBeeCustomBanks';
+const customBankPrefix = 'custom-';
+
+function isCustomBank(bankKey: string): boolean {
+  return bankKey.startsWith(customBankPrefix);
+}
+
+function isStoredBankConfig(value: any): value is StoredBankConfig {
+  if (!value || typeof value !== 'object') return false;
+  const requiredFields = [
+    'name', 'dateColumn', 'incomeColumn', 'expenseColumn', 'descriptionColumn',
+    'recipientColumn', 'dateFormat', 'currency'
+  ];
+  if (!requiredFields.every(
+          field => typeof value[field] === 'string' && value[field] !== '')) {
+    return false;
+  }
+  // The recipient column is matched as a pattern, and a broken one would
+  // make every later import fail
+  if (!getRuleRegex(value.recipientColumn)) return false;
+  // Formats saved before these were configurable lack them
+  const {decimalSeparator, thousandsSeparator, encoding} = value;
+  if (decimalSeparator !== undefined &&
+      (typeof decimalSeparator !== 'string' || decimalSeparator.length !== 1)) {
+    return false;
+  }
+  if (thousandsSeparator !== undefined &&
+      (typeof thousandsSeparator !== 'string' ||
+       thousandsSeparator.length > 1 ||
+       thousandsSeparator === (decimalSeparator ?? ','))) {
+    return false;
+  }
+  return encoding === undefined || encoding in encodingLabels;
+}
+
+// The value stored under the key, or null when there is none or it isn't
+// valid JSON. Callers check its shape, since the user may have edited it.
+function loadJson(key: string): any {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveJson(key: string, value: unknown): void {
+  localStorage.setItem(key, JSON.stringify(value));
+}
+
+function isPlainObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getCustomBankConfigs(): {[key: string]: StoredBankConfig} {
+  const configs: {[key: string]: StoredBankConfig} = {};
+  Object.keys(bankConfigs).filter(isCustomBank).forEach(key => {
+    const {logo, ...stored} = bankConfigs[key];
+    configs[key] = stored;
+  });
+  return configs;
+}
+
+// Saving a format under the name of an existing one replaces it. Other
+// names that slugify to a taken key, e.g. ones without Latin letters, get a
+// numbered key of their own.
+function addCustomBankConfig(config: StoredBankConfig): string {
+  const slug = config.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  const baseKey = customBankPrefix + slug;
+  let bankKey = baseKey;
+  for (let i = 2;
+       bankConfigs[bankKey] && bankConfigs[bankKey].name !== config.name; i++) {
+    bankKey = `${baseKey}-${i}`;
+  }
+  // Formats saved before number formats were configurable lack them
+  bankConfigs[bankKey] = {...defaultNumberFormat, ...config, logo: bankBeeLogo};
+  return bankKey;
+}
+
+function loadCustomBankConfigs(): void {
+  const configs = loadJson(customBankStorageKey);
+  if (!isPlainObject(configs)) return;
+
+  Object.keys(configs).forEach(key => {
+    if (isCustomBank(key) && isStoredBankConfig(configs[key])) {
+      bankConfigs[key] =
+          {...defaultNumberFormat, ...configs[key], logo: bankBeeLogo};
+    }
+  });
+}
+
+function downloadJson(fileName: string, value: unknown): void {
+  const blob =
+      new Blob([JSON.stringify(value, null, 2)], {type: 'application/json'});
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function saveCustomBankConfigs(): void {
+  saveJson(customBankStorageKey, getCustomBankConfigs());
+}
+
+const exchangeRateStorageKey = 'bankBeeExchangeRates';
+const reportingCurrencyStorageKey = 'bankBeeReportingCurrency';
+
+function loadExchangeRates(): ExchangeRate[] {
+  const rates = loadJson(exchangeRateStorageKey);
+  return Array.isArray(rates) ? rates.filter(isExchangeRate) : [];
+}
+
+const categoryRuleStorageKey = 'bankBeeCategoryRules';
+
+// Until the user edits them, the default rules are used
+function loadCategoryRules(): CategoryRule[] {
+  const rules = loadJson(categoryRuleStorageKey);
+  return Array.isArray(rules) ? rules.filter(isCategoryRule) :
+                                getDefaultRules();
+}
+
+const categoryOverrideStorageKey = 'bankBeeCategoryOverrides';
+
+// Categories picked by hand, by transaction key. The transaction's text is
+// kept too, so the classifier can still learn from it once the statement is
+// no longer loaded.
+type CategoryOverrides = {[key: string]: LabelledTransaction};
+
+function loadCategoryOverrides(): CategoryOverrides {
+  const overrides = loadJson(categoryOverrideStorageKey);
+  if (!isPlainObject(overrides)) return {};
+  return Object.fromEntries(Object.entries(overrides).filter(
+      ([, override]) => isLabelledTransaction(override))) as
+      CategoryOverrides;
+}
+
+// Suggestions below this confidence wait in the review queue instead of
+// being used in the charts
+const suggestionThreshold = 0.8;
+const reviewQueueLimit = 50;
+
+const merchantAliasStorageKey = 'bankBeeMerchantAliases';
+
+function loadMerchantAliases(): MerchantAlias[] {
+  const aliases = loadJson(merchantAliasStorageKey);
+  return Array.isArray(aliases) ? aliases.filter(isMerchantAlias) : [];
+}
+
+// Most suggested merges shown at once
+const merchantSuggestionLimit = 10;
+
+const ownAccountStorageKey = 'bankBeeOwnAccounts';
+
+function loadOwnAccounts(): OwnAccount[] {
+  const accounts = loadJson(ownAccountStorageKey);
+  return Array.isArray(accounts) ? accounts.filter(isOwnAccount) : [];
+}
+
+// Shown for transfers between own accounts, when they are included
+const transferCategory = 'Internal transfers';
+// Income in this category, or in a subcategory of this name, is matched to
+// the purchase it refunds
+const refundCategory = 'Refund';
+
+const refundLinkStorageKey = 'bankBeeRefundLinks';
+
+function loadManualRefundLinks(): ManualRefundLinks {
+  const links = loadJson(refundLinkStorageKey);
+  return isManualRefundLinks(links) ? links : {links: {}, unlinked: []};
+}
+
+// Most refunds listed at once, newest first
+const refundListLimit = 50;
+// Most purchases offered when linking a refund by hand
+const purchaseCandidateLimit = 30;
+
+const cycleStartDayStorageKey = 'bankBeeCycleStartDay';
+
+// Payday, for periods that run from one salary to the next
+function loadCycleStartDay(): number {
+  const day = loadJson(cycleStartDayStorageKey);
+  return Number.isInteger(day) && day >= 1 && day <= 31 ? day : 10;
+}
+
+const alertSettingsStorageKey = 'bankBeeAlertSettings';
+const dismissedAlertStorageKey = 'bankBeeDismissedAlerts';
+
+function loadAlertSettings(): AlertSettings {
+  const settings = loadJson(alertSettingsStorageKey);
+  return isAlertSettings(settings) ? settings : {...defaultAlertSettings};
+}
+
+function loadDismissedAlerts(): string[] {
+  const keys = loadJson(dismissedAlertStorageKey);
+  return Array.isArray(keys) && keys.every(key => typeof key === 'string') ?
+      keys :
+      [];
+}
+
+// One per category in the stacked trend bars, repeated when there are more
+const trendColors = [
+  '#FF6B6B', '#4ECDC4', '#55A3FF', '#FF9F43', '#6C5CE7', '#1DD1A1', '#FFC048',
+  '#FF6384', '#A29BFE', '#00CEC9'
+];
+
+const annotationStorageKey = 'bankBeeAnnotations';
+
+// Tags and notes the user added, by transaction key
+interface Annotation {
+  tags: string[];
+  note: string;
+}
+
+function loadAnnotations(): {[key: string]: Annotation} {
+  const annotations = loadJson(annotationStorageKey);
+  if (!isPlainObject(annotations)) return {};
+  return Object.fromEntries(Object.entries(annotations).filter(
+      ([, a]: [string, any]) => !!a && Array.isArray(a.tags) &&
+          a.tags.every((tag: any) => typeof tag === 'string') &&
+          typeof a.note === 'string')) as {[key: string]: Annotation};
+}
+
+// "#Vacation-2026, reimbursable" becomes ["vacation-2026", "reimbursable"]
+function parseTags(text: string): string[] {
+  const tags = text.split(/[\s,]+/)
+                   .map(tag => tag.replace(/^#+/, '').toLowerCase())
+                   .filter(tag => tag !== '');
+  return Array.from(new Set(tags));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A regex for descriptions like this one: its words in the same order,
+// without the reference numbers and dates that change with every payment
+function getDescriptionPattern(description: string): string {
+  return description.toUpperCase()
+      .split(/\s+/)
+      .filter(word => word.length > 1 && !/\d/.test(word))
+      .slice(0, 4)
+      .map(escapeRegExp)
+      .join('.*');
+}
+
 class ExcelParser {
   private getCurrency(): string {
-    const config = bankConfigs[this.currentBank];
-    return config ? config.currency : '€';
+    return getCurrencySymbol(this.reportingCurrency || 'EUR');
   }
   private fileInput: HTMLInputElement;
   private uploadArea: HTMLElement;
@@ -115,20 +426,128 @@ class ExcelParser {
   private tableHead: HTMLElement;
   private tableBody: HTMLElement;
   private fileInfo: HTMLElement;
+  private importReport: HTMLElement;
   private errorMessage: HTMLElement;
   private sheetTabs: HTMLElement;
   private chartsContainer: HTMLElement;
-  private monthSelect: HTMLSelectElement;
+  private balanceChartItem: HTMLElement;
+  private chartsRow: HTMLElement;
+  private trendsView: HTMLElement;
+  private trendTable: HTMLElement;
+  private currencySelect: HTMLSelectElement;
+  private ratesTableBody: HTMLElement;
+  private addRateBtn: HTMLButtonElement;
+  private importRatesBtn: HTMLButtonElement;
+  private exportRatesBtn: HTMLButtonElement;
+  private ratesFileInput: HTMLInputElement;
+  private conversionWarning: HTMLElement;
+  private periodKindSelect: HTMLSelectElement;
+  private periodSelect: HTMLSelectElement;
+  private cycleControls: HTMLElement;
+  private cycleStartDayInput: HTMLInputElement;
+  private customRange: HTMLElement;
+  private periodFromInput: HTMLInputElement;
+  private periodToInput: HTMLInputElement;
+  private periodError: HTMLElement;
+  private cycleStartDay: number = loadCycleStartDay();
+  // The choices in `periodSelect`, by option value
+  private periods: Period[] = [];
   private bankSelect: HTMLSelectElement;
   private bankLogo: HTMLImageElement;
+  private bankPrompt: HTMLElement;
+  private mappingWizard: HTMLElement;
+  private exportFormatsBtn: HTMLButtonElement;
+  private importFormatsBtn: HTMLButtonElement;
+  private formatsFileInput: HTMLInputElement;
+  private encodingSelect: HTMLSelectElement;
+  private encodingOverride: TextEncoding|null = null;
+  // A spreadsheet bank format the user picked instead of detection
+  private bankOverride: string|null = null;
+  private parser = new BackgroundParser();
+  private importRun = 0;  // Bumped to abandon the import in progress
+  // Settles the bank prompt or mapping wizard the import is waiting on
+  private resolveBankChoice: ((bankKey: string|null) => void)|null = null;
+  private uploadProgress: HTMLElement;
+  private progressBar: HTMLProgressElement;
+  private progressText: HTMLElement;
+  private cancelImportBtn: HTMLButtonElement;
+  private lastFiles: File[] = [];
   private parsedSheets: ParsedData[] = [];
   private currentSheetIndex: number = 0;
   private transactions: Transaction[] = [];
   private expenseChart: Chart|null = null;
   private incomeChart: Chart|null = null;
-  private currentBank: string = 'nkbm-otp';
+  private balanceChart: Chart|null = null;
+  private trendChart: Chart|null = null;
+  private categoryTrendChart: Chart|null = null;
+  // End-of-day balances by account (or bank, when the account is unknown)
+  // and date key
+  private balanceSeries = new Map<string, BalanceSeries>();
+  // Totals are shown in this currency; empty until the user picks one or
+  // statements are loaded
+  private reportingCurrency: string =
+      localStorage.getItem(reportingCurrencyStorageKey) || '';
+  private exchangeRates: ExchangeRate[] = loadExchangeRates();
+  // Converted copies made for the charts, mapped back to the loaded
+  // transactions
+  private originals = new WeakMap<Transaction, Transaction>();
+  private categoryRules: CategoryRule[] = loadCategoryRules();
+  // A rule added in the editor, kept out of `categoryRules` until it is valid
+  private draftRule: CategoryRule|null = null;
+  private rulesTableBody: HTMLElement;
+  private addRuleBtn: HTMLButtonElement;
+  private importRulesBtn: HTMLButtonElement;
+  private exportRulesBtn: HTMLButtonElement;
+  private resetRulesBtn: HTMLButtonElement;
+  private rulesFileInput: HTMLInputElement;
+  // Categories picked by hand win over the rules. Keys don't depend on the
+  // file, so they survive reloads and re-imports of the same statement.
+  private categoryOverrides: CategoryOverrides = loadCategoryOverrides();
+  // Trained from the overrides when first needed, with its suggestions for
+  // loaded transactions
+  private categoryModel: CategoryModel|null = null;
+  private suggestions = new WeakMap<Transaction, CategorySuggestion|null>();
+  private reviewQueue: HTMLElement;
+  private annotations: {[key: string]: Annotation} = loadAnnotations();
+  private tagSelect: HTMLSelectElement;
+  private ownAccounts: OwnAccount[] = loadOwnAccounts();
+  private merchantAliases: MerchantAlias[] = loadMerchantAliases();
+  private aliasesTableBody: HTMLElement;
+  private addAliasBtn: HTMLButtonElement;
+  private merchantSuggestions: HTMLElement;
+  private subscriptions: HTMLElement;
+  private manualRefundLinks: ManualRefundLinks = loadManualRefundLinks();
+  // Refunds linked to the purchases they reverse, across all loaded
+  // statements, and how much of each purchase came back
+  private refundLinks = new Map<Transaction, Transaction>();
+  private refundTotals = new Map<Transaction, number>();
+  private refunds: HTMLElement;
+  private alertSettings: AlertSettings = loadAlertSettings();
+  private dismissedAlerts: string[] = loadDismissedAlerts();
+  private alertList: HTMLElement;
+  private restoreAlertsBtn: HTMLButtonElement;
+  private alertSettingInputs: {[key in keyof AlertSettings]: HTMLInputElement};
+  // Loaded transactions that move money between own accounts. They are
+  // left out of the income and expense charts unless `showTransfers` is set.
+  private transfers = new Set<Transaction>();
+  private showTransfers = false;
+  private showTransfersInput: HTMLInputElement;
+  private transferNote: HTMLElement;
+  private accountsTableBody: HTMLElement;
+  private addAccountBtn: HTMLButtonElement;
+  private expenseBreadcrumb: HTMLElement;
+  private incomeBreadcrumb: HTMLElement;
+  private categoryTransactions: HTMLElement;
+  // The pie slice whose transactions are listed under the charts
+  private openCategory: {type: Transaction['type'], category: string}|null =
+      null;
   private currentView: 'category'|'recipient' = 'category';
-  private currentChartType: 'pie'|'daily' = 'pie';
+  private currentChartType: 'pie'|'daily'|'trends' = 'pie';
+  // The parent categories the pies are drilled into
+  private categoryPath: {[type in Transaction['type']]: string[]} = {
+    expense: [],
+    income: []
+  };
   private currentExpenseData: CategoryData = {};
   private currentIncomeData: CategoryData = {};
   private currentExpenseDailyData: DailyData[] = [];
@@ -137,6 +556,7 @@ class ExcelParser {
   private recipientViewBtn: HTMLButtonElement;
   private pieChartBtn: HTMLButtonElement;
   private dailyChartBtn: HTMLButtonElement;
+  private trendsChartBtn: HTMLButtonElement;
   private mainLogo: HTMLImageElement;
   private uploadText: HTMLElement;
   private uploadSubtext: HTMLElement;
@@ -144,17 +564,112 @@ class ExcelParser {
   constructor() {
     this.fileInput = document.getElementById('fileInput') as HTMLInputElement;
     this.uploadArea = document.getElementById('uploadArea') as HTMLElement;
+    this.uploadProgress =
+        document.getElementById('uploadProgress') as HTMLElement;
+    this.progressBar =
+        document.getElementById('progressBar') as HTMLProgressElement;
+    this.progressText = document.getElementById('progressText') as HTMLElement;
+    this.cancelImportBtn =
+        document.getElementById('cancelImport') as HTMLButtonElement;
     this.tableContainer =
         document.getElementById('tableContainer') as HTMLElement;
     this.tableHead = document.getElementById('tableHead') as HTMLElement;
     this.tableBody = document.getElementById('tableBody') as HTMLElement;
     this.fileInfo = document.getElementById('fileInfo') as HTMLElement;
+    this.importReport = document.getElementById('importReport') as HTMLElement;
     this.errorMessage = document.getElementById('errorMessage') as HTMLElement;
     this.sheetTabs = document.getElementById('sheetTabs') as HTMLElement;
+    this.bankPrompt = document.getElementById('bankPrompt') as HTMLElement;
+    this.mappingWizard =
+        document.getElementById('mappingWizard') as HTMLElement;
+    this.exportFormatsBtn =
+        document.getElementById('exportFormats') as HTMLButtonElement;
+    this.importFormatsBtn =
+        document.getElementById('importFormats') as HTMLButtonElement;
+    this.formatsFileInput =
+        document.getElementById('formatsFileInput') as HTMLInputElement;
+    this.encodingSelect =
+        document.getElementById('encodingSelect') as HTMLSelectElement;
     this.chartsContainer =
         document.getElementById('chartsContainer') as HTMLElement;
-    this.monthSelect =
-        document.getElementById('monthSelect') as HTMLSelectElement;
+    this.balanceChartItem =
+        document.getElementById('balanceChartItem') as HTMLElement;
+    this.chartsRow = document.getElementById('chartsRow') as HTMLElement;
+    this.trendsView = document.getElementById('trendsView') as HTMLElement;
+    this.trendTable = document.getElementById('trendTable') as HTMLElement;
+    this.currencySelect =
+        document.getElementById('currencySelect') as HTMLSelectElement;
+    this.ratesTableBody =
+        document.getElementById('ratesTableBody') as HTMLElement;
+    this.addRateBtn = document.getElementById('addRate') as HTMLButtonElement;
+    this.importRatesBtn =
+        document.getElementById('importRates') as HTMLButtonElement;
+    this.exportRatesBtn =
+        document.getElementById('exportRates') as HTMLButtonElement;
+    this.ratesFileInput =
+        document.getElementById('ratesFileInput') as HTMLInputElement;
+    this.conversionWarning =
+        document.getElementById('conversionWarning') as HTMLElement;
+    this.rulesTableBody =
+        document.getElementById('rulesTableBody') as HTMLElement;
+    this.addRuleBtn = document.getElementById('addRule') as HTMLButtonElement;
+    this.importRulesBtn =
+        document.getElementById('importRules') as HTMLButtonElement;
+    this.exportRulesBtn =
+        document.getElementById('exportRules') as HTMLButtonElement;
+    this.resetRulesBtn =
+        document.getElementById('resetRules') as HTMLButtonElement;
+    this.rulesFileInput =
+        document.getElementById('rulesFileInput') as HTMLInputElement;
+    this.categoryTransactions =
+        document.getElementById('categoryTransactions') as HTMLElement;
+    this.reviewQueue = document.getElementById('reviewQueue') as HTMLElement;
+    this.tagSelect = document.getElementById('tagSelect') as HTMLSelectElement;
+    this.showTransfersInput =
+        document.getElementById('showTransfers') as HTMLInputElement;
+    this.transferNote = document.getElementById('transferNote') as HTMLElement;
+    this.accountsTableBody =
+        document.getElementById('accountsTableBody') as HTMLElement;
+    this.addAccountBtn =
+        document.getElementById('addAccount') as HTMLButtonElement;
+    this.aliasesTableBody =
+        document.getElementById('aliasesTableBody') as HTMLElement;
+    this.addAliasBtn = document.getElementById('addAlias') as HTMLButtonElement;
+    this.merchantSuggestions =
+        document.getElementById('merchantSuggestions') as HTMLElement;
+    this.subscriptions =
+        document.getElementById('subscriptions') as HTMLElement;
+    this.refunds = document.getElementById('refunds') as HTMLElement;
+    this.alertList = document.getElementById('alertList') as HTMLElement;
+    this.restoreAlertsBtn =
+        document.getElementById('restoreAlerts') as HTMLButtonElement;
+    this.alertSettingInputs = {
+      categoryFactor:
+          document.getElementById('alertCategoryFactor') as HTMLInputElement,
+      categoryMonths:
+          document.getElementById('alertCategoryMonths') as HTMLInputElement,
+      newRecipientAmount:
+          document.getElementById('alertNewRecipient') as HTMLInputElement,
+      dayFactor: document.getElementById('alertDayFactor') as HTMLInputElement
+    };
+    this.expenseBreadcrumb =
+        document.getElementById('expenseBreadcrumb') as HTMLElement;
+    this.incomeBreadcrumb =
+        document.getElementById('incomeBreadcrumb') as HTMLElement;
+    this.periodKindSelect =
+        document.getElementById('periodKind') as HTMLSelectElement;
+    this.periodSelect =
+        document.getElementById('periodSelect') as HTMLSelectElement;
+    this.cycleControls =
+        document.getElementById('cycleControls') as HTMLElement;
+    this.cycleStartDayInput =
+        document.getElementById('cycleStartDay') as HTMLInputElement;
+    this.customRange = document.getElementById('customRange') as HTMLElement;
+    this.periodFromInput =
+        document.getElementById('periodFrom') as HTMLInputElement;
+    this.periodToInput =
+        document.getElementById('periodTo') as HTMLInputElement;
+    this.periodError = document.getElementById('periodError') as HTMLElement;
     this.bankSelect =
         document.getElementById('bankSelect') as HTMLSelectElement;
     this.bankLogo = document.getElementById('bankLogo') as HTMLImageElement;
@@ -165,20 +680,66 @@ class ExcelParser {
     this.pieChartBtn = document.getElementById('pieChart') as HTMLButtonElement;
     this.dailyChartBtn =
         document.getElementById('dailyChart') as HTMLButtonElement;
+    this.trendsChartBtn =
+        document.getElementById('trendsChart') as HTMLButtonElement;
     this.mainLogo = document.getElementById('mainLogo') as HTMLImageElement;
     this.uploadText = document.getElementById('uploadText') as HTMLElement;
     this.uploadSubtext =
         document.getElementById('uploadSubtext') as HTMLElement;
 
     this.initializeEventListeners();
+    this.populateCustomBankOptions();
+    this.populateEncodingOptions();
+    this.populateCurrencyOptions();
+    this.renderExchangeRates();
+    this.renderCategoryRules();
+    this.renderOwnAccounts();
+    this.renderMerchantAliases();
     this.updateBankLogo();
     this.setMainLogo();
   }
 
   private initializeEventListeners(): void {
     this.uploadArea.addEventListener('click', () => this.fileInput.click());
+    this.cancelImportBtn.addEventListener('click', (e) => {
+      e.stopPropagation();  // Don't open the file picker
+      this.cancelImport();
+    });
     this.fileInput.addEventListener('change', (e) => this.handleFileSelect(e));
-    this.monthSelect.addEventListener('change', () => this.updateCharts());
+    this.periodKindSelect.addEventListener(
+        'change', () => this.handlePeriodKindChange());
+    this.periodSelect.addEventListener('change', () => this.updateCharts());
+    this.cycleStartDayInput.value = String(this.cycleStartDay);
+    this.cycleStartDayInput.addEventListener('change', () => {
+      const day = Number(this.cycleStartDayInput.value);
+      if (Number.isInteger(day) && day >= 1 && day <= 31) {
+        this.cycleStartDay = day;
+        saveJson(cycleStartDayStorageKey, day);
+      }
+      this.cycleStartDayInput.value = String(this.cycleStartDay);
+      this.setupPeriodSelector();
+    });
+    this.periodFromInput.addEventListener('change', () => this.updateCharts());
+    this.periodToInput.addEventListener('change', () => this.updateCharts());
+    this.tagSelect.addEventListener('change', () => this.updateCharts());
+    this.showTransfersInput.addEventListener('change', () => {
+      this.showTransfers = this.showTransfersInput.checked;
+      this.updateCharts();
+    });
+    this.addAccountBtn.addEventListener('click', () => this.addOwnAccount());
+    this.addAliasBtn.addEventListener('click', () => this.addMerchantAlias());
+    this.restoreAlertsBtn.addEventListener('click', () => {
+      this.dismissedAlerts = [];
+      saveJson(dismissedAlertStorageKey, this.dismissedAlerts);
+      this.updateCharts();
+    });
+    (Object.keys(this.alertSettingInputs) as (keyof AlertSettings)[])
+        .forEach(key => {
+          const input = this.alertSettingInputs[key];
+          input.value = String(this.alertSettings[key]);
+          input.addEventListener(
+              'change', () => this.handleAlertSettingsChange());
+        });
     this.bankSelect.addEventListener('change', (e) => this.handleBankChange(e));
     this.categoryViewBtn.addEventListener(
         'click', () => this.switchChartView('category'));
@@ -188,6 +749,43 @@ class ExcelParser {
         'click', () => this.switchChartType('pie'));
     this.dailyChartBtn.addEventListener(
         'click', () => this.switchChartType('daily'));
+    this.trendsChartBtn.addEventListener(
+        'click', () => this.switchChartType('trends'));
+    this.encodingSelect.addEventListener(
+        'change', () => this.handleEncodingChange());
+    this.exportFormatsBtn.addEventListener(
+        'click', () => this.exportCustomFormats());
+    this.importFormatsBtn.addEventListener(
+        'click', () => this.formatsFileInput.click());
+    this.formatsFileInput.addEventListener('change', () => {
+      const file = this.formatsFileInput.files?.[0];
+      if (file) this.importCustomFormats(file);
+      this.formatsFileInput.value = '';
+    });
+    this.currencySelect.addEventListener(
+        'change', () => this.handleCurrencyChange());
+    this.addRateBtn.addEventListener('click', () => this.addExchangeRate());
+    this.exportRatesBtn.addEventListener(
+        'click', () => this.exportExchangeRates());
+    this.importRatesBtn.addEventListener(
+        'click', () => this.ratesFileInput.click());
+    this.ratesFileInput.addEventListener('change', () => {
+      const file = this.ratesFileInput.files?.[0];
+      if (file) this.importExchangeRates(file);
+      this.ratesFileInput.value = '';
+    });
+    this.addRuleBtn.addEventListener('click', () => this.addCategoryRule());
+    this.exportRulesBtn.addEventListener(
+        'click', () => this.exportCategoryRules());
+    this.importRulesBtn.addEventListener(
+        'click', () => this.rulesFileInput.click());
+    this.resetRulesBtn.addEventListener(
+        'click', () => this.resetCategoryRules());
+    this.rulesFileInput.addEventListener('change', () => {
+      const file = this.rulesFileInput.files?.[0];
+      if (file) this.importCategoryRules(file);
+      this.rulesFileInput.value = '';
+    });
 
     this.uploadArea.addEventListener('dragover', (e) => {
       e.preventDefault();
@@ -203,430 +801,1214 @@ class ExcelParser {
       this.uploadArea.classList.remove('dragover');
       const files = e.dataTransfer?.files;
       if (files && files.length > 0) {
-        this.processFile(files[0]);
+        this.processFiles(Array.from(files));
       }
     });
   }
 
   private handleFileSelect(event: Event): void {
     const input = event.target as HTMLInputElement;
-    const file = input.files?.[0];
-    if (file) {
-      this.processFile(file);
+    const files = input.files;
+    if (files && files.length > 0) {
+      this.processFiles(Array.from(files));
     }
   }
 
-  private processFile(file: File): void {
+  private async processFiles(files: File[]): Promise<void> {
+    // A new import replaces one that is still running
+    this.parser.cancel();
+    const run = ++this.importRun;
+
+    this.lastFiles = files;
     this.hideError();
+    this.hideImportReport();
+    this.closeBankChoice();
     this.hideTable();
     this.hideCharts();
+    this.openCategory = null;
     this.parsedSheets = [];
     this.transactions = [];
+    this.balanceSeries.clear();
+    this.transfers.clear();
+    this.merchantSuggestions.innerHTML = '';
     this.currentSheetIndex = 0;
 
-    if (!this.isValidFileType(file)) {
-      this.showError(`Please select a valid CSV file from ${
-          bankConfigs[this.currentBank].name} bank statements`);
-      return;
+    const summaries: ImportSummary[] = [];
+    for (const [index, file] of files.entries()) {
+      const progressLabel = files.length > 1 ?
+          `${file.name} (${index + 1} of ${files.length})` :
+          file.name;
+      const summary = await this.importFile(
+          file, files.length > 1, progressLabel, run);
+      if (run !== this.importRun) return;  // Cancelled or replaced
+      summaries.push(summary);
+      this.showImportSummary(summaries);
     }
 
-    this.showFileInfo(file);
-
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, {
-          type: 'binary',
-          codepage: 1250  // Central European encoding for special characters
-        });
+    this.hideProgress();
+    this.showImportReport(summaries);
 
-        workbook.SheetNames.forEach(sheetName => {
-          const worksheet = workbook.Sheets[sheetName];
-          const jsonData =
-              XLSX.utils.sheet_to_json(
-                  worksheet, {header: 1, raw: false, dateNF: 'dd.mm.yyyy'}) as
-              any[][];
-
-          if (jsonData.length > 0) {
-            let headers: string[];
-            let rows: any[][];
-
-            // Special handling for Erste Bank .xls format
-            if (this.currentBank === 'erste') {
-              // Find the header row (contains "Datum valute", "Iznos", etc.)
-              let headerRowIndex = -1;
-              for (let i = 0; i < jsonData.length; i++) {
-                const row = jsonData[i];
-                if (row && row.some(cell => 
-                  cell && typeof cell === 'string' && 
-                  (cell.includes('Datum valute') || cell.includes('Iznos')))) {
-                  headerRowIndex = i;
-                  break;
-                }
-              }
-              
-              if (headerRowIndex !== -1) {
-                headers = jsonData[headerRowIndex].map(h => String(h || ''));
-                rows = jsonData.slice(headerRowIndex + 1);
-              } else {
-                headers = jsonData[0].map(h => String(h || ''));
-                rows = jsonData.slice(1);
-              }
-            } else {
-              // Standard handling for CSV files
-              headers = jsonData[0].map(h => String(h || ''));
-              rows = jsonData.slice(1);
-            }
-
-            this.parsedSheets.push({sheetName, headers, rows});
-          }
-        });
+    if (this.parsedSheets.length > 0) {
+      this.createSheetTabs();
+      this.displaySheet(0);
+    }
 
-        if (this.parsedSheets.length > 0) {
-          this.createSheetTabs();
-          this.displaySheet(0);
+    const errors = summaries.filter(s => s.error);
+    if (errors.length > 0) {
+      this.showError(errors.map(s => `${s.fileName}: ${s.error}`).join(' '));
+    }
 
-          // Check if this is a bank transaction file
-          if (this.isBankTransactionFile()) {
-            this.parseBankTransactions();
-            this.setupMonthSelector();
-            this.showCharts();
-          }
-        } else {
-          this.showError('No data found in the file');
-        }
-      } catch (error) {
-        this.showError('Error parsing file: ' + (error as Error).message);
+    if (this.transactions.length > 0) {
+      this.transactions.sort((a, b) => a.date.getTime() - b.date.getTime());
+      this.applyAnnotations();
+      this.populateTagOptions();
+      this.transfers = findTransfers(this.transactions, this.ownAccounts);
+      this.renderMerchantSuggestions();
+      if (!this.reportingCurrency) {
+        this.reportingCurrency = this.getMainCurrency();
       }
+      this.populateCurrencyOptions();
+      this.setupPeriodSelector();
+      this.showCharts();
+    }
+  }
+
+  // Stops touching the loaded data as soon as `run` is cancelled or
+  // replaced; the summary is discarded then
+  private async importFile(
+      file: File, prefixSheetNames: boolean, progressLabel: string,
+      run: number): Promise<ImportSummary> {
+    const summary: ImportSummary = {
+      fileName: file.name,
+      fileSize: file.size,
+      merged: 0,
+      skipped: 0,
+      issues: [],
+      mismatches: []
     };
 
-    reader.onerror = () => {
-      this.showError('Error reading file');
+    if (!this.isValidFileType(file)) {
+      summary.error =
+          'Not a valid CSV, Excel, OFX, camt or MT940 bank statement file.';
+      return summary;
+    }
+
+    const isStale = () => run !== this.importRun;
+    const onProgress: ProgressCallback = (stage, fraction) => {
+      if (!isStale()) this.showProgress(`${progressLabel}: ${stage}`, fraction);
     };
 
-    reader.readAsBinaryString(file);
+    let workbook: RawWorkbook;
+    try {
+      const bytes = new Uint8Array(await this.readFile(file, onProgress));
+      if (isStale()) return summary;
+      const formatOverride =
+          this.bankOverride && statementFormats[this.bankOverride] ?
+          this.bankOverride :
+          null;
+      const read = await this.parser.read(
+          bytes, this.encodingOverride, formatOverride, onProgress);
+      if (isStale()) return summary;
+      if (read.kind === 'statement') {
+        const {accounts, transactions, issues} = read.statement ||
+            statementFormats[read.formatKey].parse(read.text);
+        const statement = {...read, accounts, transactions, issues};
+        summary.bankDetected = !formatOverride;
+        return this.importStatement(summary, statement, file.name);
+      }
+      workbook = read.workbook;
+    } catch (error) {
+      if (isStale()) return summary;
+      summary.error = 'Error parsing file: ' + (error as Error).message;
+      return summary;
+    }
+
+    const rawSheets = workbook.sheets;
+    if (rawSheets.length === 0) {
+      summary.error = 'No data found in the file.';
+      return summary;
+    }
+
+    const bankOverride =
+        this.bankOverride && bankConfigs[this.bankOverride] ?
+        this.bankOverride :
+        null;
+    const matches = bankOverride ? [] : this.detectBanks(rawSheets[0].data);
+    const bestMatches =
+        matches.filter(m => m.confidence === matches[0].confidence);
+
+    // Wait for the user without a stale progress bar
+    let bankKey: string|null;
+    this.hideProgress();
+    if (bankOverride) {
+      bankKey = bankOverride;
+    } else if (matches.length === 0) {
+      bankKey = await this.showMappingWizard(file.name, rawSheets[0].data);
+    } else if (bestMatches.length > 1) {
+      bankKey = await this.promptForBank(file.name, bestMatches);
+    } else {
+      bankKey = matches[0].bankKey;
+    }
+    if (isStale()) return summary;
+
+    if (!bankKey) {
+      // Still show the raw data so the user can see what was loaded
+      this.parsedSheets.push(...rawSheets.map(sheet => this.toSheet(sheet)));
+      const bankNames = Object.values(bankConfigs).map(c => c.name);
+      summary.error = 'Could not recognize the format. None of the supported ' +
+          `banks (${bankNames.join(', ')}) match its column headers.`;
+      return summary;
+    }
+
+    const config = bankConfigs[bankKey];
+    summary.bankName = config.name;
+    summary.bankDetected = !bankOverride;
+
+    // The worker still holds the whole workbook; only its transactions and
+    // a preview of each sheet come back
+    let imported: WorkbookImport;
+    try {
+      imported = await this.parser.parse(config, onProgress);
+      if (isStale()) return summary;
+    } catch (error) {
+      if (isStale()) return summary;
+      summary.error = 'Error parsing file: ' + (error as Error).message;
+      return summary;
+    }
+    summary.encoding = imported.encoding;
+
+    const sheets = imported.sheets;
+    if (prefixSheetNames) {
+      sheets.forEach(
+          sheet => sheet.sheetName = `${file.name} - ${sheet.sheetName}`);
+    }
+    this.parsedSheets.push(...sheets);
+
+    if (!this.isBankTransactionFile(sheets[0], bankKey)) {
+      summary.error = 'No transaction columns found.';
+      return summary;
+    }
+
+    const {transactions, issues, balanceRows} = imported;
+    transactions.forEach(t => {
+      t.bank = config.name;
+      t.file = file.name;
+    });
+    const result = this.mergeTransactions(transactions);
+    summary.merged = result.merged;
+    summary.skipped = result.skipped;
+    summary.issues = issues;
+
+    // Spreadsheet exports don't name their account, so each file gets its
+    // own balance line rather than mixing two accounts at one bank
+    const {points, mismatches} = this.reconcileBalances(balanceRows);
+    this.addBalancePoints(
+        `${config.name} (${file.name})`, normalizeCurrency(config.currency),
+        points);
+    summary.mismatches = mismatches;
+    return summary;
   }
 
-  private isBankTransactionFile(): boolean {
-    if (this.parsedSheets.length === 0) return false;
+  private showProgress(text: string, fraction: number|null): void {
+    this.progressText.textContent = fraction === null ?
+        text :
+        `${text} ${Math.round(fraction * 100)}%`;
+    if (fraction === null) {
+      this.progressBar.removeAttribute('value');  // Indeterminate
+    } else {
+      this.progressBar.value = fraction;
+    }
+    this.uploadProgress.style.display = 'block';
+  }
 
-    const headers = this.parsedSheets[0].headers;
-    const config = bankConfigs[this.currentBank];
+  private hideProgress(): void {
+    this.uploadProgress.style.display = 'none';
+  }
 
-    // Check if key columns exist for the selected bank
-    const hasDateColumn = headers.some(
-        h => h && h.toUpperCase().includes(config.dateColumn.toUpperCase()));
-    const hasIncomeColumn = headers.some(
-        h => h && h.toUpperCase().includes(config.incomeColumn.toUpperCase()));
-    const hasExpenseColumn = headers.some(
-        h => h && h.toUpperCase().includes(config.expenseColumn.toUpperCase()));
+  // Drops the files loaded so far, since a partial import would give
+  // misleading totals
+  private cancelImport(): void {
+    this.importRun++;
+    this.parser.cancel();
+    this.hideProgress();
+    this.closeBankChoice();
+    this.hideImportReport();
+    this.parsedSheets = [];
+    this.transactions = [];
+    this.balanceSeries.clear();
+    this.transfers.clear();
+    this.merchantSuggestions.innerHTML = '';
+    this.fileInfo.textContent = 'Import cancelled.';
+    this.fileInfo.style.display = 'block';
+  }
 
-    return hasDateColumn && (hasIncomeColumn || hasExpenseColumn);
+  private readFile(file: File, onProgress: ProgressCallback):
+      Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onprogress = (e) => onProgress(
+          'Reading file', e.lengthComputable ? e.loaded / e.total : null);
+      reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
+      reader.onerror = () => reject(new Error('Error reading file'));
+      reader.readAsArrayBuffer(file);
+    });
   }
 
-  private parseBankTransactions(): void {
-    const sheet = this.parsedSheets[0];
-    const headers = sheet.headers;
-    const config = bankConfigs[this.currentBank];
+  private importStatement(
+      summary: ImportSummary, statement: Statement,
+      sheetName: string): ImportSummary {
+    summary.bankName = statementFormats[statement.formatKey].name;
+    summary.encoding = statement.encoding;
+    summary.accounts = statement.accounts;
+    summary.issues = statement.issues || [];
+    this.parsedSheets.push(
+        this.transactionsToSheet(sheetName, statement.transactions));
+
+    if (statement.transactions.length === 0) {
+      summary.error = 'No transactions found.';
+      return summary;
+    }
 
-    // Find column indices based on bank configuration
-    const dateIndex = headers.findIndex(
-        h => h && h.toUpperCase().includes(config.dateColumn.toUpperCase()));
-    const incomeIndex = headers.findIndex(
-        h => h && h.toUpperCase().includes(config.incomeColumn.toUpperCase()));
-    const expenseIndex = headers.findIndex(
-        h => h && h.toUpperCase().includes(config.expenseColumn.toUpperCase()));
-    const purposeIndex = headers.findIndex(
-        h => h && h.toUpperCase().includes(config.descriptionColumn.toUpperCase()));
-    const recipientIndex = headers.findIndex(h => {
-      if (!h) return false;
-      const pattern = new RegExp(config.recipientColumn, 'i');
-      return pattern.test(h);
+    statement.transactions.forEach(t => {
+      t.bank = summary.bankName;
+      t.file = sheetName;
     });
+    const result = this.mergeTransactions(statement.transactions);
+    summary.merged = result.merged;
+    summary.skipped = result.skipped;
+
+    this.mergeAccounts(statement.accounts || []).forEach(account => {
+      const transactions = statement.transactions.filter(
+          t => (t.account || '') === account.iban);
+      const {points, mismatches} =
+          this.reconcileStatement(account, transactions);
+      const currency = normalizeCurrency(account.currency) ||
+          transactions[0]?.currency || '';
+      this.addBalancePoints(
+          account.iban || `${summary.bankName} (${sheetName})`, currency,
+          points);
+      summary.mismatches.push(...mismatches);
+    });
+    return summary;
+  }
 
-    // For Erste Bank, income and expense are the same column
-    if (this.currentBank === 'erste') {
-      if (dateIndex === -1 || incomeIndex === -1) {
-        console.error('Required columns not found for Erste Bank. Date:', dateIndex, 'Amount:', incomeIndex);
-        return;
+  // A file can hold several consecutive statements for the same account, so
+  // they are reconciled as one from the first opening to the last closing
+  // balance
+  private mergeAccounts(accounts: AccountStatement[]): AccountStatement[] {
+    const merged = new Map<string, AccountStatement>();
+    accounts.forEach(account => {
+      const existing = merged.get(account.iban);
+      if (!existing) {
+        merged.set(account.iban, {...account});
+      } else if (account.closingBalance !== undefined) {
+        existing.closingBalance = account.closingBalance;
       }
-    } else {
-      if (dateIndex === -1 || (incomeIndex === -1 && expenseIndex === -1)) {
-        console.error('Required columns not found for bank:', this.currentBank);
-        return;
+    });
+    return Array.from(merged.values());
+  }
+
+  // Checks every row's reported balance against the previous row's balance
+  // plus the row's income minus its expense. A mismatch means a row is
+  // missing from the export or an amount was read wrong.
+  private reconcileBalances(rows: BalanceRow[]):
+      {points: BalancePoint[], mismatches: RowIssue[]} {
+    if (rows.length === 0) return {points: [], mismatches: []};
+
+    // Banks list rows oldest or newest first
+    const chronological =
+        rows[0].date.getTime() <= rows[rows.length - 1].date.getTime() ?
+        rows :
+        [...rows].reverse();
+
+    const mismatches: RowIssue[] = [];
+    const points = new Map<string, BalancePoint>();
+    chronological.forEach((row, i) => {
+      const dateKey = getDateKey(row.date);
+      const point: BalancePoint = {
+        date: row.date,
+        balance: row.balance,
+        mismatch: points.get(dateKey)?.mismatch || false
+      };
+
+      if (i > 0) {
+        const previous = chronological[i - 1].balance;
+        const expected = previous + row.change;
+        if (!this.sameAmount(expected, row.balance)) {
+          point.mismatch = true;
+          mismatches.push({
+            rowNumber: row.rowNumber,
+            reason: `Balance ${row.balance.toFixed(2)} doesn't match ${
+                previous.toFixed(2)} ${row.change < 0 ? '-' : '+'} ${
+                Math.abs(row.change).toFixed(2)} = ${expected.toFixed(2)}`,
+            content: row.content
+          });
+        }
       }
+
+      // The last row of the day holds the end-of-day balance
+      points.set(dateKey, point);
+    });
+
+    return {points: Array.from(points.values()), mismatches};
+  }
+
+  // Structured statements only report the opening and closing balance, so
+  // the running balance is worked out from the transactions in between
+  private reconcileStatement(
+      account: AccountStatement, transactions: Transaction[]):
+      {points: BalancePoint[], mismatches: RowIssue[]} {
+    if (account.openingBalance === undefined) {
+      return {points: [], mismatches: []};
     }
 
-    this.transactions = [];
+    let balance = account.openingBalance;
+    const points = new Map<string, BalancePoint>();
+    [...transactions]
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+        .forEach(t => {
+          balance += t.type === 'income' ? t.amount : -t.amount;
+          points.set(
+              getDateKey(t.date),
+              {date: t.date, balance, mismatch: false});
+        });
+
+    const mismatches: RowIssue[] = [];
+    const closing = account.closingBalance;
+    if (closing !== undefined && !this.sameAmount(balance, closing)) {
+      const last = Array.from(points.values()).pop();
+      if (last) last.mismatch = true;
+      mismatches.push({
+        reason: `Closing balance ${closing.toFixed(2)} doesn't match ${
+            balance.toFixed(2)} worked out from the opening balance and ` +
+            'transactions',
+        content: this.formatAccount(account)
+      });
+    }
+
+    return {points: Array.from(points.values()), mismatches};
+  }
+
+  private sameAmount(a: number, b: number): boolean {
+    return Math.abs(a - b) < 0.005;
+  }
+
+  // Overlapping statements of the same account report the same balances, so
+  // points are merged by date
+  private addBalancePoints(
+      name: string, currency: string, points: BalancePoint[]): void {
+    if (points.length === 0) return;
+
+    const series = this.balanceSeries.get(name) ||
+        {currency, points: new Map<string, BalancePoint>()};
+    points.forEach(point => {
+      const dateKey = getDateKey(point.date);
+      const mismatch = series.points.get(dateKey)?.mismatch || point.mismatch;
+      series.points.set(dateKey, {...point, mismatch});
+    });
+    this.balanceSeries.set(name, series);
+  }
+
+  private transactionsToSheet(sheetName: string, transactions: Transaction[]):
+      ParsedData {
+    return {
+      sheetName,
+      headers:
+          ['Date', 'Type', 'Amount', 'Currency', 'Recipient', 'Description'],
+      rows: transactions.slice(0, previewRowCount)
+                .map(
+                    t =>
+                        [t.date.toLocaleDateString(), t.type,
+                         t.amount.toFixed(2), t.currency || '', t.recipient,
+                         t.description]),
+      rowCount: transactions.length
+    };
+  }
 
-    sheet.rows.forEach(row => {
-      if (!row[dateIndex]) return;
-
-      const dateStr = row[dateIndex];
-      let date: Date;
-
-      // Parse date based on bank's date format
-      if (config.dateFormat === 'dd.mm.yyyy') {
-        const dateParts = dateStr.split('.');
-        date = new Date(
-            parseInt(dateParts[2]), parseInt(dateParts[1]) - 1,
-            parseInt(dateParts[0]));
-      } else if (config.dateFormat === 'dd/mm/yyyy') {
-        const dateParts = dateStr.split('/');
-        date = new Date(
-            parseInt(dateParts[2]), parseInt(dateParts[1]) - 1,
-            parseInt(dateParts[0]));
+  // Adds transactions that are not already loaded. Statements with
+  // overlapping date ranges repeat the same rows, but one statement can
+  // legitimately contain identical rows (e.g. two coffees on the same day),
+  // so a row only counts as a duplicate as many times as it was already seen.
+  private mergeTransactions(incoming: Transaction[]):
+      {merged: number, skipped: number} {
+    const existingCounts = new Map<string, number>();
+    this.transactions.forEach(t => {
+      const key = this.getTransactionKey(t);
+      existingCounts.set(key, (existingCounts.get(key) || 0) + 1);
+    });
+
+    let merged = 0;
+    let skipped = 0;
+    incoming.forEach(t => {
+      const key = this.getTransactionKey(t);
+      const remaining = existingCounts.get(key) || 0;
+      if (remaining > 0) {
+        existingCounts.set(key, remaining - 1);
+        skipped++;
       } else {
-        date = new Date(dateStr);
+        this.transactions.push(t);
+        merged++;
       }
+    });
 
-      const description = row[purposeIndex] || 'Unknown';
-      const recipient = row[recipientIndex] || 'Unknown';
-
-      // Special handling for Erste Bank (single amount column with +/- values)
-      if (this.currentBank === 'erste' && incomeIndex !== -1) {
-        const rawValue = String(row[incomeIndex]).trim();
-        if (rawValue && rawValue !== '0' && rawValue !== '') {
-          // Handle different number formats: 1,234.56 or 1.234,56
-          let cleanValue = rawValue.replace(
-              /[^\d,.-]/g,
-              '');  // Remove non-numeric chars except comma, dot, minus
-
-          // If contains both comma and dot, determine which is decimal separator
-          if (cleanValue.includes(',') && cleanValue.includes('.')) {
-            if (cleanValue.lastIndexOf(',') > cleanValue.lastIndexOf('.')) {
-              // Comma is decimal separator (European format)
-              cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
-            } else {
-              // Dot is decimal separator (US format)
-              cleanValue = cleanValue.replace(/,/g, '');
-            }
-          } else if (cleanValue.includes(',')) {
-            // Only comma - could be thousands or decimal separator
-            const parts = cleanValue.split(',');
-            if (parts.length === 2 && parts[1].length <= 2) {
-              // Likely decimal separator
-              cleanValue = cleanValue.replace(',', '.');
-            } else {
-              // Likely thousands separator
-              cleanValue = cleanValue.replace(/,/g, '');
-            }
-          }
+    return {merged, skipped};
+  }
 
-          const amount = parseFloat(cleanValue) || 0;
-          if (amount !== 0) {
-            const type = amount > 0 ? 'income' : 'expense';
-            const absAmount = Math.abs(amount);
-            console.log(`${type === 'income' ? 'Income' : 'Expense'}: ${rawValue} -> ${absAmount}`);
-            this.transactions.push(
-                {date, amount: absAmount, description, recipient, type});
-          }
+  private getTransactionKey(t: Transaction): string {
+    return [
+      t.account || '', getDateKey(t.date), t.type, t.currency || '',
+      t.amount.toFixed(2), t.description.trim().toUpperCase(),
+      t.recipient.trim().toUpperCase()
+    ].join('|');
+  }
+
+  // A YYYY-MM-DD key as a local date, e.g. for chart labels
+  private formatDateKey(key: string): string {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+
+  // Scores every known bank format against the sheet, best match first
+  private detectBanks(data: any[][]): BankMatch[] {
+    const matches: BankMatch[] = [];
+
+    Object.keys(bankConfigs).forEach(bankKey => {
+      const headerRow = findHeaderRow(data, bankConfigs[bankKey]);
+      if (headerRow.confidence > 0) {
+        matches.push({bankKey, ...headerRow});
+      }
+    });
+
+    return matches.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // Shows a sheet of an unrecognized file with its first row as the headers
+  private toSheet({sheetName, data, rowCount}: RawSheet): ParsedData {
+    const headers = data[0].map(h => String(h || ''));
+    return {
+      sheetName,
+      headers,
+      rows: data.slice(1),
+      rowCount: (rowCount ?? data.length) - 1
+    };
+  }
+
+  private promptForBank(fileName: string, matches: BankMatch[]):
+      Promise<string|null> {
+    return new Promise(resolve => {
+      this.resolveBankChoice = resolve;
+      this.bankPrompt.innerHTML = '';
+
+      const message = document.createElement('p');
+      message.textContent = `${fileName} matches more than one bank format. ` +
+          'Which bank is this statement from?';
+      this.bankPrompt.appendChild(message);
+
+      matches.forEach(match => {
+        const button = document.createElement('button');
+        button.textContent = bankConfigs[match.bankKey].name;
+        button.addEventListener('click', () => {
+          this.hideBankPrompt();
+          resolve(match.bankKey);
+        });
+        this.bankPrompt.appendChild(button);
+      });
+
+      this.bankPrompt.style.display = 'block';
+    });
+  }
+
+  // Lets the user describe an unknown statement format by picking its
+  // columns. Resolves with the key of the saved format, or null if cancelled.
+  private showMappingWizard(fileName: string, data: any[][]):
+      Promise<string|null> {
+    return new Promise(resolve => {
+      this.resolveBankChoice = resolve;
+      this.mappingWizard.innerHTML = '';
+
+      const title = document.createElement('h3');
+      title.textContent = `New bank format for ${fileName}`;
+      const intro = document.createElement('p');
+      intro.textContent = 'The columns in this file don\'t match any known ' +
+          'bank. Choose which column holds each value and the format will be ' +
+          'saved in this browser for your next import.';
+      this.mappingWizard.append(title, intro);
+
+      const nameInput = document.createElement('input');
+      nameInput.type = 'text';
+      nameInput.placeholder = 'e.g. My Bank';
+
+      const headerRowInput = document.createElement('input');
+      headerRowInput.type = 'number';
+      headerRowInput.min = '1';
+      headerRowInput.max = String(data.length);
+      headerRowInput.value = String(this.guessHeaderRow(data) + 1);
+
+      const amountModeSelect = this.createSelect([
+        ['separate', 'Separate income and expense columns'],
+        ['signed', 'One signed amount column (negative = expense)']
+      ]);
+      const dateSelect = document.createElement('select');
+      const incomeSelect = document.createElement('select');
+      const expenseSelect = document.createElement('select');
+      const amountSelect = document.createElement('select');
+      const descriptionSelect = document.createElement('select');
+      const recipientSelect = document.createElement('select');
+      const balanceSelect = document.createElement('select');
+      const currencySelect = document.createElement('select');
+      const dateFormatSelect = this.createSelect([
+        ['dd.mm.yyyy', 'dd.mm.yyyy'], ['dd/mm/yyyy', 'dd/mm/yyyy'],
+        ['dd.mm.yy', 'dd.mm.yy'], ['yyyy-mm-dd', 'yyyy-mm-dd'],
+        ['mm/dd/yyyy', 'mm/dd/yyyy'], ['dd.mm.yyyy HH:MM', 'dd.mm.yyyy HH:MM'],
+        ['auto', 'Other (try common formats)']
+      ]);
+
+      const decimalSelect = this.createSelect([
+        [',', 'Comma (1.234,56)'], ['.', 'Dot (1,234.56)']
+      ]);
+      const thousandsSelect = this.createSelect([
+        ['.', 'Dot'], [',', 'Comma'], [' ', 'Space'], ['', 'None']
+      ]);
+      // Picking a decimal separator suggests the usual grouping for it
+      decimalSelect.addEventListener('change', () => {
+        thousandsSelect.value = decimalSelect.value === ',' ? '.' : ',';
+      });
+
+      const currencyInput = document.createElement('input');
+      currencyInput.type = 'text';
+      currencyInput.value = '€';
+      currencyInput.size = 4;
+
+      const form = document.createElement('div');
+      form.className = 'wizard-form';
+      const addField = (label: string, control: HTMLElement): HTMLElement => {
+        const field = document.createElement('label');
+        field.append(label, control);
+        form.appendChild(field);
+        return field;
+      };
+      addField('Bank name', nameInput);
+      addField('Header row', headerRowInput);
+      addField('Date column', dateSelect);
+      addField('Date format', dateFormatSelect);
+      addField('Amounts', amountModeSelect);
+      const incomeField = addField('Income column', incomeSelect);
+      const expenseField = addField('Expense column', expenseSelect);
+      const amountField = addField('Amount column', amountSelect);
+      addField('Description column', descriptionSelect);
+      addField('Recipient column', recipientSelect);
+      addField('Balance column', balanceSelect);
+      addField('Decimal separator', decimalSelect);
+      addField('Thousands separator', thousandsSelect);
+      addField('Account currency', currencyInput);
+      addField('Currency column', currencySelect);
+      this.mappingWizard.appendChild(form);
+
+      const preview = document.createElement('div');
+      preview.className = 'wizard-preview';
+      this.mappingWizard.appendChild(preview);
+
+      const wizardError = document.createElement('p');
+      wizardError.className = 'wizard-error';
+      this.mappingWizard.appendChild(wizardError);
+
+      const getHeaderRowIndex = (): number => {
+        const index = parseInt(headerRowInput.value) - 1;
+        return Math.min(Math.max(isNaN(index) ? 0 : index, 0), data.length - 1);
+      };
+
+      const renderColumns = () => {
+        const headerRowIndex = getHeaderRowIndex();
+        const headers = (data[headerRowIndex] || []).map(h => String(h || ''));
+        const columns = headers.filter(h => h.trim() !== '');
+
+        [dateSelect, incomeSelect, expenseSelect, amountSelect,
+         descriptionSelect]
+            .forEach(select => this.fillColumnOptions(select, columns, ''));
+        this.fillColumnOptions(
+            recipientSelect, columns, '(same as description)');
+        this.fillColumnOptions(balanceSelect, columns, '(none)');
+        this.fillColumnOptions(
+            currencySelect, columns, '(always the currency above)');
+
+        const sample: ParsedData = {
+          sheetName: fileName,
+          headers,
+          rows: data.slice(headerRowIndex + 1, headerRowIndex + 6)
+        };
+        preview.innerHTML = '';
+        preview.appendChild(this.createTable(sample));
+      };
+
+      const updateAmountMode = () => {
+        const signed = amountModeSelect.value === 'signed';
+        incomeField.style.display = signed ? 'none' : '';
+        expenseField.style.display = signed ? 'none' : '';
+        amountField.style.display = signed ? '' : 'none';
+      };
+
+      headerRowInput.addEventListener('change', renderColumns);
+      amountModeSelect.addEventListener('change', updateAmountMode);
+      renderColumns();
+      updateAmountMode();
+
+      const saveButton = document.createElement('button');
+      saveButton.textContent = 'Save format';
+      saveButton.addEventListener('click', () => {
+        const signed = amountModeSelect.value === 'signed';
+        const name = nameInput.value.trim();
+        const description = descriptionSelect.value;
+
+        if (!name || !dateSelect.value || !description ||
+            (signed ? !amountSelect.value :
+                      !incomeSelect.value || !expenseSelect.value)) {
+          wizardError.textContent =
+              'Please enter a name and choose the date, amount and ' +
+              'description columns.';
+          return;
         }
-      } else {
-        // Standard handling for other banks with separate income/expense columns
-        
-        // Parse income if present
-        if (incomeIndex !== -1 && row[incomeIndex]) {
-          const rawValue = String(row[incomeIndex]).trim();
-          if (rawValue && rawValue !== '0' && rawValue !== '') {
-            // Handle different number formats: 1,234.56 or 1.234,56
-            let cleanValue = rawValue.replace(
-                /[^\d,.-]/g,
-                '');  // Remove non-numeric chars except comma, dot, minus
-
-            // If contains both comma and dot, determine which is decimal
-            // separator
-            if (cleanValue.includes(',') && cleanValue.includes('.')) {
-              if (cleanValue.lastIndexOf(',') > cleanValue.lastIndexOf('.')) {
-                // Comma is decimal separator (European format)
-                cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
-              } else {
-                // Dot is decimal separator (US format)
-                cleanValue = cleanValue.replace(/,/g, '');
-              }
-            } else if (cleanValue.includes(',')) {
-              // Only comma - could be thousands or decimal separator
-              const parts = cleanValue.split(',');
-              if (parts.length === 2 && parts[1].length <= 2) {
-                // Likely decimal separator
-                cleanValue = cleanValue.replace(',', '.');
-              } else {
-                // Likely thousands separator
-                cleanValue = cleanValue.replace(/,/g, '');
-              }
-            }
 
-            const amount = parseFloat(cleanValue) || 0;
-            if (amount > 0) {
-              console.log(`Income: ${rawValue} -> ${amount}`);
-              this.transactions.push(
-                  {date, amount, description, recipient, type: 'income'});
-            }
-          }
+        const config: StoredBankConfig = {
+          name,
+          dateColumn: dateSelect.value,
+          incomeColumn: signed ? amountSelect.value : incomeSelect.value,
+          expenseColumn: signed ? amountSelect.value : expenseSelect.value,
+          descriptionColumn: description,
+          recipientColumn: escapeRegExp(recipientSelect.value || description),
+          dateFormat: dateFormatSelect.value,
+          decimalSeparator: decimalSelect.value,
+          thousandsSeparator: thousandsSelect.value,
+          currency: currencyInput.value.trim() || '€',
+          currencyColumn: currencySelect.value || undefined,
+          balanceColumn: balanceSelect.value || undefined
+        };
+        if (!isStoredBankConfig(config)) {
+          wizardError.textContent =
+              'The thousands separator must differ from the decimal one.';
+          return;
         }
 
-        // Parse expense if present
-        if (expenseIndex !== -1 && row[expenseIndex]) {
-          const rawValue = String(row[expenseIndex]).trim();
-          if (rawValue && rawValue !== '0' && rawValue !== '') {
-            // Handle different number formats: 1,234.56 or 1.234,56
-            let cleanValue = rawValue.replace(
-                /[^\d,.-]/g,
-                '');  // Remove non-numeric chars except comma, dot, minus
-
-            // If contains both comma and dot, determine which is decimal
-            // separator
-            if (cleanValue.includes(',') && cleanValue.includes('.')) {
-              if (cleanValue.lastIndexOf(',') > cleanValue.lastIndexOf('.')) {
-                // Comma is decimal separator (European format)
-                cleanValue = cleanValue.replace(/\./g, '').replace(',', '.');
-              } else {
-                // Dot is decimal separator (US format)
-                cleanValue = cleanValue.replace(/,/g, '');
-              }
-            } else if (cleanValue.includes(',')) {
-              // Only comma - could be thousands or decimal separator
-              const parts = cleanValue.split(',');
-              if (parts.length === 2 && parts[1].length <= 2) {
-                // Likely decimal separator
-                cleanValue = cleanValue.replace(',', '.');
-              } else {
-                // Likely thousands separator
-                cleanValue = cleanValue.replace(/,/g, '');
-              }
-            }
+        const bankKey = addCustomBankConfig(config);
+        saveCustomBankConfigs();
+        this.populateCustomBankOptions();
+        this.hideMappingWizard();
+        resolve(bankKey);
+      });
 
-            const amount = parseFloat(cleanValue) || 0;
-            if (amount > 0) {
-              console.log(`Expense: ${rawValue} -> ${amount}`);
-              this.transactions.push(
-                  {date, amount, description, recipient, type: 'expense'});
-            }
-          }
-        }
-      }
+      const cancelButton = document.createElement('button');
+      cancelButton.textContent = 'Cancel';
+      cancelButton.addEventListener('click', () => {
+        this.hideMappingWizard();
+        resolve(null);
+      });
+
+      const buttons = document.createElement('div');
+      buttons.className = 'wizard-buttons';
+      buttons.append(saveButton, cancelButton);
+      this.mappingWizard.appendChild(buttons);
+
+      this.mappingWizard.style.display = 'block';
     });
   }
 
-  private setupMonthSelector(): void {
-    if (this.transactions.length === 0) return;
+  // Without known column names, the widest row near the top is the best bet
+  private guessHeaderRow(data: any[][]): number {
+    let bestIndex = 0;
+    let bestWidth = 0;
+    data.slice(0, maxHeaderRowScan).forEach((row, i) => {
+      const width =
+          (row || []).filter(cell => String(cell ?? '').trim() !== '').length;
+      if (width > bestWidth) {
+        bestIndex = i;
+        bestWidth = width;
+      }
+    });
+    return bestIndex;
+  }
 
-    const months = new Set<string>();
-    this.transactions.forEach(t => {
-      const monthKey = `${t.date.getFullYear()}-${
-          String(t.date.getMonth() + 1).padStart(2, '0')}`;
-      months.add(monthKey);
+  private createSelect(options: [string, string][]): HTMLSelectElement {
+    const select = document.createElement('select');
+    options.forEach(([value, label]) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      select.appendChild(option);
     });
+    return select;
+  }
+
+  private fillColumnOptions(
+      select: HTMLSelectElement, columns: string[], emptyLabel: string): void {
+    select.innerHTML = '';
+    [['', emptyLabel || '-- choose a column --'], ...columns.map(c => [c, c])]
+        .forEach(([value, label]) => {
+          const option = document.createElement('option');
+          option.value = value;
+          option.textContent = label;
+          select.appendChild(option);
+        });
+  }
+
+  private hideMappingWizard(): void {
+    this.mappingWizard.style.display = 'none';
+  }
 
-    const sortedMonths = Array.from(months).sort().reverse();
+  private populateCustomBankOptions(): void {
+    const selected = this.bankSelect.value;
+    Array.from(this.bankSelect.options)
+        .filter(option => isCustomBank(option.value))
+        .forEach(option => option.remove());
 
-    this.monthSelect.innerHTML = '';
-    sortedMonths.forEach(month => {
+    // Keep custom banks above the statement file formats
+    const formatGroup = this.bankSelect.querySelector('optgroup');
+    Object.keys(bankConfigs).filter(isCustomBank).forEach(bankKey => {
       const option = document.createElement('option');
-      option.value = month;
-      const [year, monthNum] = month.split('-');
-      const monthName =
-          new Date(parseInt(year), parseInt(monthNum) - 1)
-              .toLocaleDateString('en-US', {month: 'long', year: 'numeric'});
-      option.textContent = monthName;
-      this.monthSelect.appendChild(option);
+      option.value = bankKey;
+      option.textContent = `${bankConfigs[bankKey].name} (custom)`;
+      this.bankSelect.insertBefore(option, formatGroup);
     });
+    this.bankSelect.value = selected;
+  }
 
-    if (sortedMonths.length > 0) {
-      this.updateCharts();
+  private exportCustomFormats(): void {
+    const configs = getCustomBankConfigs();
+    if (Object.keys(configs).length === 0) {
+      this.showError('There are no custom bank formats to export yet.');
+      return;
     }
+
+    downloadJson('bank-bee-formats.json', configs);
   }
 
-  private categorizeTransaction(transaction: Transaction): string {
-    const desc = transaction.description.toUpperCase();
-    const recipient = transaction.recipient.toUpperCase();
-
-    if (transaction.type === 'expense') {
-      if (desc.includes('REVOLUT') || desc.includes('PAYPAL'))
-        return 'Digital Payments';
-      if (desc.includes('MARKET') || desc.includes('TRGOVINA') ||
-          desc.includes('SPAR') || desc.includes('MERCATOR'))
-        return 'Groceries';
-      if (desc.includes('RESTAVRACIJA') || desc.includes('GOSTINSTVO') ||
-          desc.includes('FOOD'))
-        return 'Restaurants';
-      if (desc.includes('BENCIN') || desc.includes('PETROL') ||
-          desc.includes('OMV'))
-        return 'Gas';
-      if (desc.includes('TELEKOM') || desc.includes('A1') ||
-          desc.includes('TELEMACH'))
-        return 'Telecom';
-      if (recipient.includes('UNIVERZA')) return 'Education';
-      if (desc.includes('ZAVAROVANJE')) return 'Insurance';
-      if (desc.includes('NAJEMNINA') || desc.includes('RENT')) return 'Rent';
-      return 'Other Expenses';
-    } else {
-      // Income categorization
-      if (desc.includes('PLAČA') || desc.includes('SALARY') ||
-          desc.includes('MEZDA'))
-        return 'Salary';
-      if (desc.includes('DIVIDENDA') || desc.includes('DIVIDEND'))
-        return 'Dividends';
-      if (desc.includes('OBRESTI') || desc.includes('INTEREST'))
-        return 'Interest';
-      if (desc.includes('NAKAZILO') || desc.includes('TRANSFER'))
-        return 'Transfer';
-      if (desc.includes('REFUND') || desc.includes('POVRAČILO'))
-        return 'Refund';
-      if (desc.includes('FREELANCE') || desc.includes('HONORAR'))
-        return 'Freelance';
-      if (desc.includes('GIFT') || desc.includes('DARILO')) return 'Gift';
-      return 'Other Income';
+  private async importCustomFormats(file: File): Promise<void> {
+    this.hideError();
+    try {
+      const parsed = JSON.parse(await file.text());
+      // Accept both the exported object and a plain array of formats
+      const configs: any[] =
+          Array.isArray(parsed) ? parsed : Object.values(parsed);
+      const valid = configs.filter(isStoredBankConfig);
+
+      if (valid.length === 0) {
+        this.showError(`No bank formats found in ${file.name}`);
+        return;
+      }
+
+      valid.forEach(config => {
+        const {logo, ...stored} = config as BankConfig;
+        addCustomBankConfig(stored);
+      });
+      saveCustomBankConfigs();
+      this.populateCustomBankOptions();
+
+      const skipped = configs.length - valid.length;
+      this.fileInfo.textContent = `Imported ${valid.length} bank format${
+          valid.length === 1 ? '' : 's'} from ${file.name}` +
+          (skipped > 0 ? ` (${skipped} invalid entries skipped)` : '');
+      this.fileInfo.style.display = 'block';
+    } catch (error) {
+      this.showError(
+          'Error importing bank formats: ' + (error as Error).message);
     }
   }
 
-  private updateCharts(): void {
-    const selectedMonth = this.monthSelect.value;
-    if (!selectedMonth) return;
+  private renderCategoryRules(): void {
+    this.rulesTableBody.innerHTML = '';
+
+    const bankNames = [
+      ...Object.values(bankConfigs).map(c => c.name),
+      ...Object.values(statementFormats).map(f => f.name)
+    ];
+
+    const rules = this.draftRule ? [...this.categoryRules, this.draftRule] :
+                                   this.categoryRules;
+    rules.forEach((rule, index) => {
+      const isDraft = rule === this.draftRule;
+      const row = document.createElement('tr');
+      row.classList.toggle('invalid', isDraft);
+      const addCell = (control: HTMLElement) => {
+        const cell = document.createElement('td');
+        cell.appendChild(control);
+        row.appendChild(cell);
+      };
+      const createInput = (type: string, value: string, size: number) => {
+        const input = document.createElement('input');
+        input.type = type;
+        input.value = value;
+        input.size = size;
+        addCell(input);
+        return input;
+      };
+      const createSelect = (options: [string, string][], value: string) => {
+        const select = this.createSelect(options);
+        select.value = value;
+        addCell(select);
+        return select;
+      };
+
+      const fieldSelect = createSelect(
+          [
+            ['any', 'Description or recipient'], ['description', 'Description'],
+            ['recipient', 'Recipient']
+          ],
+          rule.field);
+      const matchSelect = createSelect(
+          [['contains', 'contains'], ['equals', 'equals'], ['regex', 'regex']],
+          rule.match);
+      const patternInput = createInput('text', rule.pattern, 16);
+      const typeSelect = createSelect(
+          [['', 'Any'], ['expense', 'Expense'], ['income', 'Income']],
+          rule.type || '');
+      const minInput = createInput('number', String(rule.minAmount ?? ''), 6);
+      const maxInput = createInput('number', String(rule.maxAmount ?? ''), 6);
+      const bankOptions = bankNames.map(n => [n, n] as [string, string]);
+      const bankSelect =
+          createSelect([['', 'Any bank'], ...bankOptions], rule.bank || '');
+      const categoryInput = createInput('text', rule.category, 14);
+      [minInput, maxInput].forEach(input => input.step = 'any');
+
+      const update = () => {
+        const parseNumber = (value: string) =>
+            value === '' ? undefined : parseFloat(value);
+        const updated: CategoryRule = {
+          category: categoryInput.value.trim(),
+          field: fieldSelect.value as RuleField,
+          match: matchSelect.value as RuleMatch,
+          pattern: patternInput.value,
+          type: (typeSelect.value || undefined) as CategoryRule['type'],
+          minAmount: parseNumber(minInput.value),
+          maxAmount: parseNumber(maxInput.value),
+          bank: bankSelect.value || undefined
+        };
+        // Keep the last valid rule until the row is fixed. A rule needs a
+        // pattern or another condition, or it would take every transaction.
+        const valid = isCategoryRule(updated) &&
+            (updated.match !== 'regex' ||
+             getRuleRegex(updated.pattern) !== null) &&
+            (updated.pattern !== '' || updated.minAmount !== undefined ||
+             updated.maxAmount !== undefined || updated.bank !== undefined);
+        row.classList.toggle('invalid', !valid);
+        if (!valid) {
+          if (isDraft) this.draftRule = updated;
+          return;
+        }
+        if (isDraft) {
+          this.draftRule = null;
+          this.categoryRules.push(updated);
+          this.renderCategoryRules();
+        } else {
+          this.categoryRules[index] = updated;
+        }
+        this.handleCategoryRulesChange();
+      };
+      [fieldSelect, matchSelect, patternInput, typeSelect, minInput, maxInput,
+       bankSelect, categoryInput]
+          .forEach(control => control.addEventListener('change', update));
+
+      const actions = document.createElement('td');
+      const addAction = (label: string, title: string, action: () => void) => {
+        const button = document.createElement('button');
+        button.textContent = label;
+        button.title = title;
+        button.addEventListener('click', () => {
+          action();
+          this.renderCategoryRules();
+          this.handleCategoryRulesChange();
+        });
+        actions.appendChild(button);
+      };
+      const move = (offset: number) => {
+        const [moved] = this.categoryRules.splice(index, 1);
+        this.categoryRules.splice(index + offset, 0, moved);
+      };
+      if (isDraft) {
+        addAction('✕', 'Remove', () => this.draftRule = null);
+      } else {
+        if (index > 0) addAction('↑', 'Move up', () => move(-1));
+        if (index < this.categoryRules.length - 1) {
+          addAction('↓', 'Move down', () => move(1));
+        }
+        addAction('✕', 'Remove', () => this.categoryRules.splice(index, 1));
+      }
+      row.appendChild(actions);
+
+      this.rulesTableBody.appendChild(row);
+    });
+  }
+
+  // The new rule applies once its pattern is filled in
+  private addCategoryRule(): void {
+    if (!this.draftRule) {
+      this.draftRule = {
+        category: 'New category',
+        field: 'any',
+        match: 'contains',
+        pattern: '',
+        type: 'expense'
+      };
+    }
+    this.renderCategoryRules();
+    // The pattern is the row's first text field
+    this.rulesTableBody.lastElementChild?.querySelector('input')?.focus();
+  }
+
+  private resetCategoryRules(): void {
+    if (!confirm('Replace your categorization rules with the default ones?')) {
+      return;
+    }
+    this.categoryRules = getDefaultRules();
+    this.renderCategoryRules();
+    this.handleCategoryRulesChange();
+  }
+
+  private handleCategoryRulesChange(): void {
+    saveJson(categoryRuleStorageKey, this.categoryRules);
+    this.updateCharts();
+  }
+
+  private exportCategoryRules(): void {
+    downloadJson('bank-bee-rules.json', this.categoryRules);
+  }
+
+  // Imported rules replace the current ones, since their order matters
+  private async importCategoryRules(file: File): Promise<void> {
+    this.hideError();
+    try {
+      const parsed = JSON.parse(await file.text());
+      const rules: any[] = Array.isArray(parsed) ? parsed : [];
+      const valid = rules.filter(isCategoryRule);
+
+      if (valid.length === 0) {
+        this.showError(`No categorization rules found in ${file.name}`);
+        return;
+      }
+
+      this.categoryRules = valid;
+      this.renderCategoryRules();
+      this.handleCategoryRulesChange();
+
+      const skipped = rules.length - valid.length;
+      this.fileInfo.textContent = `Imported ${valid.length} rule${
+          valid.length === 1 ? '' : 's'} from ${file.name}` +
+          (skipped > 0 ? ` (${skipped} invalid entries skipped)` : '');
+      this.fileInfo.style.display = 'block';
+    } catch (error) {
+      this.showError(
+          'Error importing categorization rules: ' + (error as Error).message);
+    }
+  }
+
+  private hideBankPrompt(): void {
+    this.bankPrompt.style.display = 'none';
+  }
+
+  // Closes the bank prompt or mapping wizard of an abandoned import, as if
+  // the user had cancelled it
+  private closeBankChoice(): void {
+    const resolve = this.resolveBankChoice;
+    this.resolveBankChoice = null;
+    this.hideBankPrompt();
+    this.hideMappingWizard();
+    resolve?.(null);
+  }
+
+  private isBankTransactionFile(sheet: ParsedData, bankKey: string): boolean {
+    return scoreHeaders(sheet.headers, bankConfigs[bankKey]) > 0;
+  }
+
+  // Lists the periods of the chosen kind that have transactions, keeping
+  // the selected one if it is still there
+  private setupPeriodSelector(): void {
+    if (this.transactions.length === 0) return;
+
+    const kind = this.periodKindSelect.value;
+    const isCustom = kind === 'custom';
+    this.periodSelect.style.display = isCustom ? 'none' : 'inline-block';
+    this.customRange.style.display = isCustom ? 'inline' : 'none';
+    this.cycleControls.style.display = kind === 'cycle' ? 'inline' : 'none';
+
+    if (!isCustom) {
+      const selected = this.periods[Number(this.periodSelect.value)];
+      this.periods = getPeriods(
+          kind as PeriodKind, this.transactions.map(t => t.date),
+          this.cycleStartDay);
+      this.periodSelect.innerHTML = '';
+      this.periods.forEach((period, i) => {
+        const option = document.createElement('option');
+        option.value = String(i);
+        option.textContent = period.label;
+        this.periodSelect.appendChild(option);
+      });
+      const index = selected ?
+          this.periods.findIndex(
+              p => p.start.getTime() === selected.start.getTime() &&
+                  p.end.getTime() === selected.end.getTime()) :
+          -1;
+      this.periodSelect.value = String(Math.max(index, 0));
+    }
+
+    this.updateCharts();
+  }
 
-    const [year, month] = selectedMonth.split('-').map(Number);
+  // A custom range starts out as the period that was selected before
+  private handlePeriodKindChange(): void {
+    const previous = this.periods[Number(this.periodSelect.value)];
+    if (this.periodKindSelect.value === 'custom' && previous) {
+      this.periodFromInput.value = getDateKey(previous.start);
+      this.periodToInput.value = getDateKey(new Date(
+          previous.end.getFullYear(), previous.end.getMonth(),
+          previous.end.getDate() - 1));
+    }
+    this.setupPeriodSelector();
+  }
 
-    // Filter transactions for the selected month
-    const monthlyExpenses = this.transactions.filter(
-        t => t.date.getFullYear() === year && t.date.getMonth() + 1 === month &&
-            t.type === 'expense');
+  // Marks the custom range's inputs when they don't make a range
+  private getSelectedPeriod(): Period|null {
+    if (this.periodKindSelect.value !== 'custom') {
+      this.showPeriodError('');
+      return this.periods[Number(this.periodSelect.value)] || null;
+    }
+    const parse = (value: string) => {
+      const [year, month, day] = value.split('-').map(Number);
+      const date = new Date(year, month - 1, day);
+      return value && !isNaN(date.getTime()) ? date : null;
+    };
+    const from = parse(this.periodFromInput.value);
+    const to = parse(this.periodToInput.value);
+    if (!from || !to) {
+      this.showPeriodError('Pick both dates of the range.');
+      return null;
+    }
+    if (from.getTime() > to.getTime()) {
+      this.showPeriodError('The range ends before it starts.');
+      return null;
+    }
+    this.showPeriodError('');
+    return getCustomPeriod(from, to);
+  }
 
-    const monthlyIncome = this.transactions.filter(
-        t => t.date.getFullYear() === year && t.date.getMonth() + 1 === month &&
-            t.type === 'income');
+  private showPeriodError(message: string): void {
+    [this.periodFromInput, this.periodToInput].forEach(
+        input => input.setCustomValidity(message));
+    this.periodError.textContent = message;
+  }
 
-    if (this.currentChartType === 'pie') {
+  private categorizeTransaction(transaction: Transaction): string {
+    // Amount ranges in rules are in the transaction's own currency
+    const original = this.originals.get(transaction) || transaction;
+    const override = this.categoryOverrides[this.getTransactionKey(original)];
+    if (override) return override.category;
+    if (this.transfers.has(original)) return transferCategory;
+
+    const suggestion = this.getSuggestion(original);
+    if (suggestion && suggestion.confidence >= suggestionThreshold) {
+      return suggestion.category;
+    }
+    return categorize(original, this.categoryRules);
+  }
+
+  // The classifier's guess for a transaction that neither a manual choice
+  // nor a rule categorizes
+  private getSuggestion(t: Transaction): CategorySuggestion|null {
+    if (this.getTransactionKey(t) in this.categoryOverrides ||
+        this.transfers.has(t) ||
+        this.categoryRules.some(rule => matchesRule(rule, t))) {
+      return null;
+    }
+
+    if (!this.categoryModel) {
+      this.categoryModel =
+          trainClassifier(Object.values(this.categoryOverrides));
+      this.suggestions = new WeakMap();
+    }
+    if (!this.suggestions.has(t)) {
+      this.suggestions.set(t, suggestCategory(this.categoryModel, t));
+    }
+    return this.suggestions.get(t) || null;
+  }
+
+  private updateCharts(): void {
+    // Grey out what the last valid period showed until the range is fixed
+    const period = this.getSelectedPeriod();
+    this.chartsContainer.classList.toggle('stale', !period);
+    if (!period) return;
+
+    const tag = this.tagSelect.value;
+
+    // Filter transactions for the selected period and tag, in the reporting
+    // currency
+    const periodTransactions = this.transactions.filter(
+        t => isInPeriod(t.date, period) && (!tag || !!t.tags?.includes(tag)));
+    this.refundLinks = linkRefunds(
+        this.transactions, t => this.isRefund(t),
+        t => getMerchantName(t.recipient, this.merchantAliases),
+        t => this.getTransactionKey(t), this.manualRefundLinks);
+    this.refundTotals = getRefundTotals(this.refundLinks);
+    const {converted, unconverted} =
+        this.convertTransactions(this.netRefunds(periodTransactions.filter(
+            t => this.showTransfers || !this.transfers.has(t))));
+    this.showConversionWarning(unconverted);
+    this.showTransferNote(
+        periodTransactions.filter(t => this.transfers.has(t)).length);
+    this.renderReviewQueue();
+    this.renderSubscriptions();
+    this.renderRefunds();
+    this.renderAlerts(period);
+
+    const expenses = converted.filter(t => t.type === 'expense');
+    const income = converted.filter(t => t.type === 'income');
+
+    this.drawBalanceChart(period);
+    const showTrends = this.currentChartType === 'trends';
+    this.chartsRow.style.display = showTrends ? 'none' : 'flex';
+    this.trendsView.style.display = showTrends ? 'block' : 'none';
+
+    if (showTrends) {
+      this.drawTrends();
+      this.hideBreadcrumbs();
+      this.hideCategoryTransactions();
+    } else if (this.currentChartType === 'pie') {
       if (this.currentView === 'category') {
-        // Categorize expenses with transaction details
-        this.currentExpenseData = this.getCategoryData(monthlyExpenses);
-        this.currentIncomeData = this.getCategoryData(monthlyIncome);
+        // Categorize expenses with transaction details, at the drilled-in
+        // level of the category tree
+        this.currentExpenseData =
+            this.getCategoryLevel(expenses, 'expense');
+        this.currentIncomeData = this.getCategoryLevel(income, 'income');
 
         const expenseData = this.categoryDataToSpending(this.currentExpenseData);
         const incomeData = this.categoryDataToSpending(this.currentIncomeData);
 
         this.drawExpenseChart(expenseData);
         this.drawIncomeChart(incomeData);
-        this.updateTotals(expenseData, incomeData);
+        this.updateTotals(expenseData, incomeData, {
+          expense: this.sumAmounts(expenses),
+          income: this.sumAmounts(income)
+        });
+        this.renderBreadcrumbs();
+        this.renderCategoryTransactions();
       } else {
         // Group by recipient
-        const expenseData = this.getTopRecipients(monthlyExpenses);
-        const incomeData = this.getTopRecipients(monthlyIncome);
+        const expenseData = this.getTopRecipients(expenses);
+        const incomeData = this.getTopRecipients(income);
 
         this.drawExpenseChart(expenseData);
         this.drawIncomeChart(incomeData);
         this.updateTotals(expenseData, incomeData);
+        this.hideBreadcrumbs();
+        this.hideCategoryTransactions();
       }
     } else {
       // Daily view
-      this.currentExpenseDailyData = this.getDailyData(monthlyExpenses);
-      this.currentIncomeDailyData = this.getDailyData(monthlyIncome);
+      this.currentExpenseDailyData = this.getDailyData(expenses);
+      this.currentIncomeDailyData = this.getDailyData(income);
 
       this.drawDailyChart('expenseChart', this.currentExpenseDailyData, 'Expenses');
       this.drawDailyChart('incomeChart', this.currentIncomeDailyData, 'Income');
       this.updateTotals(
           this.dailyDataToSpending(this.currentExpenseDailyData),
           this.dailyDataToSpending(this.currentIncomeDailyData));
+      this.hideBreadcrumbs();
+      this.hideCategoryTransactions();
     }
   }
 
@@ -651,7 +2033,8 @@ class ExcelParser {
       ctx.font = '16px Arial';
       ctx.textAlign = 'center';
       ctx.fillText(
-          'No expenses this month', canvas.width / 2, canvas.height / 2);
+          'No expenses in this period', canvas.width / 2,
+          canvas.height / 2);
       return;
     }
 
@@ -672,6 +2055,11 @@ class ExcelParser {
       options: {
         responsive: true,
         maintainAspectRatio: true,
+        onClick: (_event, elements) => {
+          if (this.currentView !== 'category' || elements.length === 0) return;
+          this.openCategorySlice(
+              'expense', this.currentExpenseData[labels[elements[0].index]]);
+        },
         plugins: {
           legend:
               {position: 'bottom', labels: {boxWidth: 12, font: {size: 11}}},
@@ -707,7 +2095,11 @@ class ExcelParser {
                   if (transactions.length > 3) {
                     result.push(`... and ${transactions.length - 3} more`);
                   }
-                  
+
+                  result.push(
+                      categoryData[label]?.hasChildren ?
+                          'Click to see subcategories' :
+                          'Click to review or recategorize');
                   return result;
                 }
               }
@@ -738,7 +2130,8 @@ class ExcelParser {
       ctx.fillStyle = '#666';
       ctx.font = '16px Arial';
       ctx.textAlign = 'center';
-      ctx.fillText('No income this month', canvas.width / 2, canvas.height / 2);
+      ctx.fillText(
+          'No income in this period', canvas.width / 2, canvas.height / 2);
       return;
     }
 
@@ -759,6 +2152,11 @@ class ExcelParser {
       options: {
         responsive: true,
         maintainAspectRatio: true,
+        onClick: (_event, elements) => {
+          if (this.currentView !== 'category' || elements.length === 0) return;
+          this.openCategorySlice(
+              'income', this.currentIncomeData[labels[elements[0].index]]);
+        },
         plugins: {
           legend:
               {position: 'bottom', labels: {boxWidth: 12, font: {size: 11}}},
@@ -794,7 +2192,11 @@ class ExcelParser {
                   if (transactions.length > 3) {
                     result.push(`... and ${transactions.length - 3} more`);
                   }
-                  
+
+                  result.push(
+                      categoryData[label]?.hasChildren ?
+                          'Click to see subcategories' :
+                          'Click to review or recategorize');
                   return result;
                 }
               }
@@ -805,6 +2207,606 @@ class ExcelParser {
     });
   }
 
+  // A parent slice drills into its children; any other lists its
+  // transactions
+  private openCategorySlice(
+      type: Transaction['type'], slice: CategoryData[string]|undefined): void {
+    if (!slice) return;
+    if (slice.hasChildren) {
+      this.categoryPath[type] = splitCategory(slice.category);
+      this.openCategory = null;
+      this.updateCharts();
+    } else {
+      this.showCategoryTransactions(type, slice.category);
+    }
+  }
+
+  private renderBreadcrumbs(): void {
+    (['expense', 'income'] as Transaction['type'][]).forEach(type => {
+      const breadcrumb = this.getBreadcrumb(type);
+      const path = this.categoryPath[type];
+      breadcrumb.innerHTML = '';
+      if (path.length === 0) {
+        breadcrumb.style.display = 'none';
+        return;
+      }
+
+      const top = type === 'expense' ? 'All expenses' : 'All income';
+      const levels = [top, ...path];
+      levels.forEach((label, depth) => {
+        if (depth > 0) breadcrumb.appendChild(document.createTextNode(' › '));
+        if (depth === path.length) {
+          const current = document.createElement('span');
+          current.textContent = label;
+          breadcrumb.appendChild(current);
+          return;
+        }
+        const link = document.createElement('button');
+        link.textContent = label;
+        link.addEventListener('click', () => {
+          this.categoryPath[type] = path.slice(0, depth);
+          this.openCategory = null;
+          this.updateCharts();
+        });
+        breadcrumb.appendChild(link);
+      });
+      breadcrumb.style.display = 'block';
+    });
+  }
+
+  private hideBreadcrumbs(): void {
+    this.getBreadcrumb('expense').style.display = 'none';
+    this.getBreadcrumb('income').style.display = 'none';
+  }
+
+  private getBreadcrumb(type: Transaction['type']): HTMLElement {
+    return type === 'expense' ? this.expenseBreadcrumb : this.incomeBreadcrumb;
+  }
+
+  private showCategoryTransactions(
+      type: Transaction['type'], category: string): void {
+    this.openCategory = {type, category};
+    this.renderCategoryTransactions();
+    this.categoryTransactions.scrollIntoView({behavior: 'smooth'});
+  }
+
+  // Lists the transactions behind the open pie slice, each with controls to
+  // move it (or every similar one) to another category
+  private renderCategoryTransactions(): void {
+    this.categoryTransactions.innerHTML = '';
+    const open = this.openCategory;
+    if (!open) {
+      this.hideCategoryTransactions();
+      return;
+    }
+
+    const categoryData = open.type === 'expense' ? this.currentExpenseData :
+                                                   this.currentIncomeData;
+    const slice = Object.values(categoryData).find(
+        s => s.category === open.category && !s.hasChildren);
+    const transactions = slice?.transactions || [];
+    if (transactions.length === 0) {
+      this.hideCategoryTransactions();
+      return;
+    }
+
+    const header = document.createElement('div');
+    header.className = 'category-transactions-header';
+    const title = document.createElement('h3');
+    title.textContent = `${open.category}: ${transactions.length} transaction${
+        transactions.length === 1 ? '' : 's'}`;
+    const closeButton = document.createElement('button');
+    closeButton.textContent = 'Close';
+    closeButton.addEventListener('click', () => {
+      this.openCategory = null;
+      this.hideCategoryTransactions();
+    });
+    header.appendChild(title);
+    header.appendChild(closeButton);
+    this.categoryTransactions.appendChild(header);
+
+    const table = document.createElement('table');
+    const headRow = table.createTHead().insertRow();
+    [
+      'Date', 'Recipient', 'Description', 'Amount', 'Category', 'Apply to', '',
+      'Tags', 'Note'
+    ].forEach(heading => {
+          const th = document.createElement('th');
+          th.textContent = heading;
+          headRow.appendChild(th);
+        });
+    const body = table.createTBody();
+
+    const categoryNames = this.getCategoryNames(open.type);
+    const sorted = [...transactions].sort(
+        (a, b) => a.date.getTime() - b.date.getTime());
+    sorted.forEach(t => {
+      const original = this.originals.get(t) || t;
+      const isOverridden =
+          this.getTransactionKey(original) in this.categoryOverrides;
+      const row = body.insertRow();
+      const addCell = (content: string|HTMLElement) => {
+        const cell = row.insertCell();
+        if (typeof content === 'string') {
+          cell.textContent = content;
+        } else {
+          cell.appendChild(content);
+        }
+        return cell;
+      };
+
+      addCell(t.date.toLocaleDateString());
+      addCell(t.recipient);
+      addCell(t.description);
+      const refunded = this.refundTotals.get(original);
+      addCell(`${this.getCurrency()}${t.amount.toFixed(2)}` +
+              (refunded ? ` (after ${refunded.toFixed(2)} ${
+                              original.currency || ''} refunded)` :
+                          ''))
+          .className = 'amount';
+
+      const categorySelect =
+          this.createCategorySelect(categoryNames, open.category, isOverridden);
+      const categoryCell = addCell(categorySelect);
+      const suggestion = isOverridden ? null : this.getSuggestion(original);
+      if (suggestion?.category === open.category) {
+        const note = document.createElement('span');
+        note.className = 'suggestion-note';
+        note.textContent = ` suggested, ${this.formatConfidence(suggestion)}`;
+        categoryCell.appendChild(note);
+      }
+
+      const recipient = normalizeRecipient(original.recipient);
+      const scopeOptions: [string, string][] = [['this', 'This transaction']];
+      if (recipient) {
+        scopeOptions.push(['recipient', `Everything from/to ${recipient}`]);
+      }
+      if (getDescriptionPattern(original.description)) {
+        scopeOptions.push(['description', 'Similar descriptions']);
+      }
+      const scopeSelect = this.createSelect(scopeOptions);
+      addCell(scopeSelect);
+
+      const applyButton = document.createElement('button');
+      applyButton.textContent = 'Apply';
+      applyButton.addEventListener(
+          'click',
+          () => this.recategorize(
+              original, categorySelect.value,
+              scopeSelect.value as 'this' | 'recipient' | 'description'));
+      addCell(applyButton);
+
+      const tagsInput = document.createElement('input');
+      tagsInput.type = 'text';
+      tagsInput.size = 14;
+      tagsInput.placeholder = '#tag';
+      tagsInput.value = (original.tags || []).map(tag => `#${tag}`).join(' ');
+      const noteInput = document.createElement('input');
+      noteInput.type = 'text';
+      noteInput.size = 20;
+      noteInput.value = original.note || '';
+      const annotate = () => this.annotateTransaction(
+          original, parseTags(tagsInput.value), noteInput.value.trim());
+      tagsInput.addEventListener('change', annotate);
+      noteInput.addEventListener('change', annotate);
+      addCell(tagsInput);
+      addCell(noteInput);
+
+      if (isOverridden) row.classList.add('overridden');
+    });
+
+    this.categoryTransactions.appendChild(table);
+    this.categoryTransactions.style.display = 'block';
+  }
+
+  // Copies the saved tags and notes onto the loaded transactions
+  private applyAnnotations(): void {
+    this.transactions.forEach(t => {
+      const annotation = this.annotations[this.getTransactionKey(t)];
+      t.tags = annotation?.tags.length ? annotation.tags : undefined;
+      t.note = annotation?.note || undefined;
+    });
+  }
+
+  private annotateTransaction(t: Transaction, tags: string[], note: string):
+      void {
+    const key = this.getTransactionKey(t);
+    if (tags.length === 0 && note === '') {
+      delete this.annotations[key];
+    } else {
+      this.annotations[key] = {tags, note};
+    }
+    saveJson(annotationStorageKey, this.annotations);
+
+    // Identical rows share a key, and so their tags and note
+    this.applyAnnotations();
+    const tagsChanged = this.populateTagOptions();
+    if (tagsChanged || this.tagSelect.value) this.updateCharts();
+  }
+
+  // Lists the tags of the loaded transactions; returns whether the selected
+  // tag is gone
+  private populateTagOptions(): boolean {
+    const counts = new Map<string, number>();
+    this.transactions.forEach(
+        t => t.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+
+    const selected = this.tagSelect.value;
+    const tags = Array.from(counts.keys()).sort();
+    this.tagSelect.innerHTML = '';
+    [['', 'All transactions'],
+     ...tags.map(tag => [tag, `#${tag} (${counts.get(tag)})`])]
+        .forEach(([value, label]) => {
+          const option = document.createElement('option');
+          option.value = value;
+          option.textContent = label;
+          this.tagSelect.appendChild(option);
+        });
+    this.tagSelect.value = counts.has(selected) ? selected : '';
+    this.tagSelect.disabled = tags.length === 0;
+    return this.tagSelect.value !== selected;
+  }
+
+  private hideCategoryTransactions(): void {
+    this.categoryTransactions.style.display = 'none';
+  }
+
+  // A select of the given categories with a last option that asks for a new
+  // name. With `canReset`, an empty value stands for "use the rules again".
+  private createCategorySelect(
+      categoryNames: string[], value: string,
+      canReset: boolean): HTMLSelectElement {
+    const select = this.createSelect([
+      ...(canReset ? [['', 'Automatic (by rules)'] as [string, string]] : []),
+      ...categoryNames.map(name => [name, name] as [string, string]),
+      ['', 'New category…']
+    ]);
+    const newCategoryOption = select.lastChild as HTMLOptionElement;
+    select.value = value;
+    select.addEventListener('change', () => {
+      if (!newCategoryOption.selected) return;
+      const name = prompt('Name of the new category')?.trim();
+      if (name) {
+        const option = document.createElement('option');
+        option.value = name;
+        option.textContent = name;
+        select.insertBefore(option, newCategoryOption);
+      }
+      select.value = name || value;
+    });
+    return select;
+  }
+
+  // Uncategorized transactions the classifier isn't sure about, across all
+  // loaded statements. Picking a category teaches the classifier.
+  private renderReviewQueue(): void {
+    const pending = this.transactions
+                        .map(t => ({t, suggestion: this.getSuggestion(t)}))
+                        .filter(
+                            ({suggestion}) => suggestion !== null &&
+                                suggestion.confidence < suggestionThreshold)
+                        .sort((a, b) => b.t.date.getTime() - a.t.date.getTime());
+
+    this.reviewQueue.innerHTML = '';
+    if (pending.length === 0) {
+      this.reviewQueue.style.display = 'none';
+      return;
+    }
+
+    const summary = document.createElement('summary');
+    summary.textContent = `Review suggested categories (${pending.length})`;
+    this.reviewQueue.appendChild(summary);
+    const note = document.createElement('p');
+    note.textContent =
+        'The classifier learns from the categories you pick by hand, in ' +
+        'this browser only. These guesses are too uncertain to use yet.';
+    this.reviewQueue.appendChild(note);
+
+    const table = document.createElement('table');
+    const headRow = table.createTHead().insertRow();
+    ['Date', 'Recipient', 'Description', 'Amount', 'Suggestion', 'Category', '']
+        .forEach(heading => {
+          const th = document.createElement('th');
+          th.textContent = heading;
+          headRow.appendChild(th);
+        });
+    const body = table.createTBody();
+    const categoryNames = {
+      expense: this.getCategoryNames('expense'),
+      income: this.getCategoryNames('income')
+    };
+
+    pending.slice(0, reviewQueueLimit).forEach(({t, suggestion}) => {
+      const row = body.insertRow();
+      const addCell = (content: string|HTMLElement) => {
+        const cell = row.insertCell();
+        if (typeof content === 'string') {
+          cell.textContent = content;
+        } else {
+          cell.appendChild(content);
+        }
+        return cell;
+      };
+
+      addCell(t.date.toLocaleDateString());
+      addCell(t.recipient);
+      addCell(t.description);
+      addCell(`${t.type === 'expense' ? '-' : ''}${t.amount.toFixed(2)} ${
+                  t.currency || ''}`)
+          .className = 'amount';
+      addCell(`${suggestion!.category} (${
+          this.formatConfidence(suggestion!)})`);
+      const categorySelect = this.createCategorySelect(
+          categoryNames[t.type], suggestion!.category, false);
+      addCell(categorySelect);
+
+      const applyButton = document.createElement('button');
+      applyButton.textContent = 'Apply';
+      applyButton.addEventListener(
+          'click', () => this.recategorize(t, categorySelect.value, 'this'));
+      addCell(applyButton);
+    });
+    this.reviewQueue.appendChild(table);
+
+    if (pending.length > reviewQueueLimit) {
+      const more = document.createElement('p');
+      more.textContent = `… and ${pending.length - reviewQueueLimit} more`;
+      this.reviewQueue.appendChild(more);
+    }
+    this.reviewQueue.style.display = 'block';
+  }
+
+  // Regular payments found in the whole history, not just the selected month
+  private renderSubscriptions(): void {
+    this.subscriptions.innerHTML = '';
+    const last = this.transactions[this.transactions.length - 1];
+    const getMerchant = (t: Transaction) =>
+        getMerchantName(t.recipient, this.merchantAliases);
+    const subscriptions = last ?
+        detectSubscriptions(
+            this.transactions.filter(t => !this.transfers.has(t)), getMerchant,
+            last.date) :
+        [];
+    if (subscriptions.length === 0) {
+      this.subscriptions.style.display = 'none';
+      return;
+    }
+
+    // Active ones first, most expensive first
+    subscriptions.sort(
+        (a, b) => Number(a.stopped) - Number(b.stopped) ||
+            this.toReportingCurrency(b) - this.toReportingCurrency(a));
+    const active = subscriptions.filter(s => !s.stopped);
+    const yearly =
+        active.reduce((sum, s) => sum + this.toReportingCurrency(s), 0);
+
+    const summary = document.createElement('summary');
+    summary.textContent = `Subscriptions and regular payments: ${
+        active.length} active, about ${this.getCurrency()}${
+        yearly.toFixed(2)} a year`;
+    this.subscriptions.appendChild(summary);
+
+    const cadenceLabels: {[cadence in Cadence]: string} = {
+      weekly: 'Weekly',
+      monthly: 'Monthly',
+      yearly: 'Yearly'
+    };
+    const rows = subscriptions.map(s => {
+      const format = (amount: number) =>
+          `${amount.toFixed(2)} ${s.currency || this.reportingCurrency}`;
+      const notes: string[] = [];
+      if (s.stopped) {
+        notes.push(`Stopped? Nothing since ${
+            s.charges[s.charges.length - 1].date.toLocaleDateString()}`);
+      }
+      s.priceChanges.forEach(change => {
+        notes.push(`${format(change.from)} → ${format(change.to)} on ${
+            change.date.toLocaleDateString()}`);
+      });
+      s.doubleCharges.forEach(t => {
+        notes.push(`Charged again on ${t.date.toLocaleDateString()}`);
+      });
+      return [
+        s.merchant, cadenceLabels[s.cadence], format(s.amount),
+        s.stopped ? '' : s.nextDate.toLocaleDateString(),
+        format(s.annualCost), notes.join('; ')
+      ];
+    });
+    this.subscriptions.appendChild(this.createTable({
+      sheetName: 'Subscriptions',
+      headers:
+          ['Merchant', 'Every', 'Amount', 'Next charge', 'Per year', 'Notes'],
+      rows
+    }));
+    this.subscriptions.style.display = 'block';
+  }
+
+  private isRefund(t: Transaction): boolean {
+    return t.type === 'income' && !this.transfers.has(t) &&
+        splitCategory(this.categorizeTransaction(t)).pop() === refundCategory;
+  }
+
+  // Leaves out linked refunds and takes them off their purchases, so that
+  // neither income nor expenses count money that came back
+  private netRefunds(transactions: Transaction[]): Transaction[] {
+    return transactions.flatMap(t => {
+      if (this.refundLinks.has(t)) return [];
+      const refunded = this.refundTotals.get(t);
+      if (!refunded) return [t];
+      if (t.amount - refunded < 0.005) return [];
+      const copy = {...t, amount: t.amount - refunded};
+      this.originals.set(copy, t);
+      return [copy];
+    });
+  }
+
+  // Every refund with the purchase it is linked to, or a choice of
+  // purchases to link it to by hand
+  private renderRefunds(): void {
+    this.refunds.innerHTML = '';
+    const refunds =
+        this.transactions
+            .filter(t => this.refundLinks.has(t) || this.isRefund(t))
+            .sort((a, b) => b.date.getTime() - a.date.getTime());
+    if (refunds.length === 0) {
+      this.refunds.style.display = 'none';
+      return;
+    }
+
+    const linked = refunds.filter(t => this.refundLinks.has(t)).length;
+    const summary = document.createElement('summary');
+    summary.textContent = `Refunds: ${linked} linked to a purchase, ${
+        refunds.length - linked} not linked`;
+    this.refunds.appendChild(summary);
+
+    const describe = (t: Transaction) =>
+        `${t.date.toLocaleDateString()} ${t.recipient || t.description}: ${
+            t.amount.toFixed(2)} ${t.currency || ''}`;
+    const table = document.createElement('table');
+    const headRow = table.createTHead().insertRow();
+    ['Refund', 'Purchase', ''].forEach(heading => {
+      const th = document.createElement('th');
+      th.textContent = heading;
+      headRow.appendChild(th);
+    });
+    const body = table.createTBody();
+
+    refunds.slice(0, refundListLimit).forEach(refund => {
+      const row = body.insertRow();
+      row.insertCell().textContent = describe(refund);
+      const purchaseCell = row.insertCell();
+      const button = document.createElement('button');
+      const purchase = this.refundLinks.get(refund);
+
+      if (purchase) {
+        purchaseCell.textContent = describe(purchase);
+        button.textContent = 'Unlink';
+        button.addEventListener('click', () => this.unlinkRefund(refund));
+      } else {
+        const candidates = this.getPurchaseCandidates(refund);
+        const select = this.createSelect([
+          ['', '-- choose a purchase --'],
+          ...candidates.map((p, i) => [String(i), describe(p)] as
+                                [string, string])
+        ]);
+        purchaseCell.appendChild(select);
+        button.textContent = 'Link';
+        button.addEventListener('click', () => {
+          const chosen = candidates[Number(select.value)];
+          if (select.value !== '' && chosen) this.linkRefund(refund, chosen);
+        });
+      }
+      row.insertCell().appendChild(button);
+    });
+    this.refunds.appendChild(table);
+    this.refunds.style.display = 'block';
+  }
+
+  // Earlier expenses in the same currency that are at least as large,
+  // the same merchant's first
+  private getPurchaseCandidates(refund: Transaction): Transaction[] {
+    const merchant = getMerchantName(refund.recipient, this.merchantAliases);
+    const isSameMerchant = (t: Transaction) =>
+        getMerchantName(t.recipient, this.merchantAliases) === merchant;
+    return this.transactions
+        .filter(
+            t => t.type === 'expense' && !this.transfers.has(t) &&
+                (t.currency || '') === (refund.currency || '') &&
+                t.date.getTime() <= refund.date.getTime() &&
+                t.amount >= refund.amount - 0.005)
+        .sort(
+            (a, b) => Number(isSameMerchant(b)) - Number(isSameMerchant(a)) ||
+                b.date.getTime() - a.date.getTime())
+        .slice(0, purchaseCandidateLimit);
+  }
+
+  private linkRefund(refund: Transaction, purchase: Transaction): void {
+    const key = this.getTransactionKey(refund);
+    this.manualRefundLinks.links[key] = this.getTransactionKey(purchase);
+    this.manualRefundLinks.unlinked =
+        this.manualRefundLinks.unlinked.filter(k => k !== key);
+    saveJson(refundLinkStorageKey, this.manualRefundLinks);
+    this.updateCharts();
+  }
+
+  // Also keeps the refund from being matched again automatically
+  private unlinkRefund(refund: Transaction): void {
+    const key = this.getTransactionKey(refund);
+    delete this.manualRefundLinks.links[key];
+    if (!this.manualRefundLinks.unlinked.includes(key)) {
+      this.manualRefundLinks.unlinked.push(key);
+    }
+    saveJson(refundLinkStorageKey, this.manualRefundLinks);
+    this.updateCharts();
+  }
+
+  // Without an exchange rate, a subscription doesn't count towards totals
+  private toReportingCurrency(subscription: Subscription): number {
+    const last = subscription.charges[subscription.charges.length - 1];
+    const rate =
+        this.getExchangeRate(subscription.currency || undefined, last.date);
+    return rate === null ? 0 : subscription.annualCost * rate;
+  }
+
+  private formatConfidence(suggestion: CategorySuggestion): string {
+    return `${Math.round(suggestion.confidence * 100)}% sure`;
+  }
+
+  // Categories the rules can assign to transactions of this type, plus the
+  // ones in use in this period
+  private getCategoryNames(type: Transaction['type']): string[] {
+    const categoryData =
+        type === 'expense' ? this.currentExpenseData : this.currentIncomeData;
+    const names = new Set<string>([
+      ...this.categoryRules.filter(r => !r.type || r.type === type)
+          .map(r => joinCategory(splitCategory(r.category))),
+      fallbackCategories[type],
+      ...Object.values(categoryData).map(slice => slice.category)
+    ]);
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+  }
+
+  // An empty category removes a manual choice, so the rules apply again.
+  // Otherwise the choice is kept for this transaction alone, or becomes a
+  // rule ahead of the others for every transaction like it.
+  private recategorize(
+      transaction: Transaction, category: string,
+      scope: 'this'|'recipient'|'description'): void {
+    const key = this.getTransactionKey(transaction);
+    if (category === '' || scope === 'this') {
+      if (category === '') {
+        delete this.categoryOverrides[key];
+      } else {
+        const {type, description, recipient} = transaction;
+        this.categoryOverrides[key] = {category, type, description, recipient};
+      }
+    } else {
+      // A manual choice for this transaction would hide the new rule
+      delete this.categoryOverrides[key];
+      const rule: CategoryRule = scope === 'recipient' ?
+          {
+            category,
+            field: 'recipient',
+            match: 'contains',
+            pattern: normalizeRecipient(transaction.recipient),
+            type: transaction.type
+          } :
+          {
+            category,
+            field: 'description',
+            match: 'regex',
+            pattern: getDescriptionPattern(transaction.description),
+            type: transaction.type
+          };
+      this.categoryRules.unshift(rule);
+      saveJson(categoryRuleStorageKey, this.categoryRules);
+      this.renderCategoryRules();
+    }
+    saveJson(categoryOverrideStorageKey, this.categoryOverrides);
+    this.categoryModel = null;
+    this.updateCharts();
+  }
+
   private switchChartView(view: 'category'|'recipient'): void {
     this.currentView = view;
 
@@ -821,17 +2823,13 @@ class ExcelParser {
     this.updateCharts();
   }
 
-  private switchChartType(type: 'pie'|'daily'): void {
+  private switchChartType(type: 'pie'|'daily'|'trends'): void {
     this.currentChartType = type;
 
     // Update button styles
-    if (type === 'pie') {
-      this.pieChartBtn.classList.add('active');
-      this.dailyChartBtn.classList.remove('active');
-    } else {
-      this.dailyChartBtn.classList.add('active');
-      this.pieChartBtn.classList.remove('active');
-    }
+    this.pieChartBtn.classList.toggle('active', type === 'pie');
+    this.dailyChartBtn.classList.toggle('active', type === 'daily');
+    this.trendsChartBtn.classList.toggle('active', type === 'trends');
 
     // Refresh charts
     this.updateCharts();
@@ -841,16 +2839,15 @@ class ExcelParser {
     const recipientMap = new Map<string, RecipientData>();
 
     transactions.forEach(t => {
-      const cleanName = this.cleanRecipientName(t.recipient);
-      if (cleanName === 'Unknown' || cleanName.length < 3) return;
+      const name = getMerchantName(t.recipient, this.merchantAliases);
+      if (name.length < 3) return;
 
-      const existing = recipientMap.get(cleanName);
+      const existing = recipientMap.get(name);
       if (existing) {
         existing.amount += t.amount;
         existing.count += 1;
       } else {
-        recipientMap.set(
-            cleanName, {name: cleanName, amount: t.amount, count: 1});
+        recipientMap.set(name, {name, amount: t.amount, count: 1});
       }
     });
 
@@ -875,31 +2872,11 @@ class ExcelParser {
     return result;
   }
 
-  private cleanRecipientName(name: string): string {
-    if (!name || name.trim() === '') return 'Unknown';
-
-    let cleaned = name.trim().toUpperCase();
-
-    // Remove common prefixes/suffixes
-    cleaned = cleaned.replace(/^(PODJETJE|D\.O\.O\.|S\.P\.|K\.D\.)\s*/i, '');
-    cleaned = cleaned.replace(/\s*(D\.O\.O\.|S\.P\.|K\.D\.)$/i, '');
-
-    // Remove extra whitespace
-    cleaned = cleaned.replace(/\s+/g, ' ').trim();
-
-    // Limit length for display
-    if (cleaned.length > 25) {
-      cleaned = cleaned.substring(0, 22) + '...';
-    }
-
-    return cleaned || 'Unknown';
-  }
-
   private getDailyData(transactions: Transaction[]): DailyData[] {
     const dailyMap = new Map<string, DailyData>();
 
     transactions.forEach(t => {
-      const dateKey = t.date.toISOString().split('T')[0];  // YYYY-MM-DD format
+      const dateKey = getDateKey(t.date);
 
       const existing = dailyMap.get(dateKey);
       if (existing) {
@@ -921,21 +2898,56 @@ class ExcelParser {
     return {'Total': total};
   }
 
-  private getCategoryData(transactions: Transaction[]): CategoryData {
+  // Groups the transactions under `path` by their next level of category.
+  // Ones categorized as the parent itself get a slice of their own, so the
+  // slices always add up to the parent.
+  private getCategoryData(transactions: Transaction[], path: string[]):
+      CategoryData {
     const categoryData: CategoryData = {};
-    
+
     transactions.forEach(t => {
-      const category = this.categorizeTransaction(t);
-      if (!categoryData[category]) {
-        categoryData[category] = { amount: 0, transactions: [] };
+      const parts = splitCategory(this.categorizeTransaction(t));
+      if (!path.every((part, i) => parts[i] === part)) return;
+
+      const isParent = parts.length === path.length;
+      const label =
+          isParent ? `${path[path.length - 1]} (other)` : parts[path.length];
+      if (!categoryData[label]) {
+        categoryData[label] = {
+          category: joinCategory(parts.slice(0, path.length + 1)),
+          amount: 0,
+          transactions: [],
+          hasChildren: false
+        };
+      }
+      categoryData[label].amount += t.amount;
+      categoryData[label].transactions.push(t);
+      if (parts.length > path.length + 1) {
+        categoryData[label].hasChildren = true;
       }
-      categoryData[category].amount += t.amount;
-      categoryData[category].transactions.push(t);
     });
-    
+
     return categoryData;
   }
 
+  // Goes back to the top when the period has nothing under the drilled-in
+  // category
+  private getCategoryLevel(
+      transactions: Transaction[], type: Transaction['type']): CategoryData {
+    const categoryData =
+        this.getCategoryData(transactions, this.categoryPath[type]);
+    if (Object.keys(categoryData).length > 0 ||
+        this.categoryPath[type].length === 0) {
+      return categoryData;
+    }
+    this.categoryPath[type] = [];
+    return this.getCategoryData(transactions, []);
+  }
+
+  private sumAmounts(transactions: Transaction[]): number {
+    return transactions.reduce((sum, t) => sum + t.amount, 0);
+  }
+
   private categoryDataToSpending(categoryData: CategoryData): MonthlySpending {
     const spending: MonthlySpending = {};
     Object.keys(categoryData).forEach(category => {
@@ -967,15 +2979,12 @@ class ExcelParser {
       ctx.font = '16px Arial';
       ctx.textAlign = 'center';
       ctx.fillText(
-          `No ${title.toLowerCase()} this month`, canvas.width / 2,
+          `No ${title.toLowerCase()} in this period`, canvas.width / 2,
           canvas.height / 2);
       return;
     }
 
-    const labels = dailyData.map(d => {
-      const date = new Date(d.date);
-      return `${date.getDate()}/${date.getMonth() + 1}`;
-    });
+    const labels = dailyData.map(d => this.formatDateKey(d.date));
     const amounts = dailyData.map(d => Math.round(d.amount * 100) / 100);
     const counts = dailyData.map(d => d.count);
 
@@ -998,8 +3007,8 @@ class ExcelParser {
         responsive: true,
         maintainAspectRatio: true,
         scales: {
-          y: {beginAtZero: true, title: {display: true, text: 'Amount (${this.getCurrency()})'}},
-          x: {title: {display: true, text: 'Day of Month'}}
+          y: {beginAtZero: true, title: {display: true, text: `Amount (${this.getCurrency()})`}},
+          x: {title: {display: true, text: 'Date'}}
         },
         plugins: {
           legend: {position: 'top', labels: {boxWidth: 12, font: {size: 11}}},
@@ -1013,7 +3022,7 @@ class ExcelParser {
                 const transactions = dailyData[dayIndex].transactions;
                 
                 const result = [
-                  `Date: ${date}`,
+                  `Date: ${this.formatDateKey(date)}`,
                   `Amount: ${this.getCurrency()}${amount.toFixed(2)}`,
                   `Transactions: ${count}`
                 ];
@@ -1048,8 +3057,720 @@ class ExcelParser {
     }
   }
 
+  // Running balance of each account in the period, shown next to the daily
+  // charts. Days whose balance didn't add up are marked in red.
+  private drawBalanceChart(period: Period): void {
+    if (this.balanceChart) {
+      this.balanceChart.destroy();
+      this.balanceChart = null;
+    }
+
+    const inPeriod = (p: BalancePoint) => isInPeriod(p.date, period);
+    // Balances without an exchange rate to the reporting currency are left out
+    const convert = (p: BalancePoint, currency: string): BalancePoint|null => {
+      const rate = this.getExchangeRate(currency, p.date);
+      return rate === null ? null : {...p, balance: p.balance * rate};
+    };
+    const series =
+        Array.from(this.balanceSeries.entries())
+            .map(([name, {currency, points}]) => ({
+                   name,
+                   points: Array.from(points.values())
+                               .filter(inPeriod)
+                               .map(p => convert(p, currency))
+                               .filter((p): p is BalancePoint => p !== null)
+                               .sort((a, b) => a.date.getTime() -
+                                         b.date.getTime())
+                 }))
+            .filter(s => s.points.length > 0);
+
+    if (this.currentChartType !== 'daily' || series.length === 0) {
+      this.balanceChartItem.style.display = 'none';
+      return;
+    }
+    this.balanceChartItem.style.display = 'block';
+
+    const canvas = document.getElementById('balanceChart') as HTMLCanvasElement;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Accounts may have balances on different days
+    const dateKeys = Array.from(new Set(series.flatMap(
+        s => s.points.map(p => getDateKey(p.date))))).sort();
+    const labels = dateKeys.map(key => this.formatDateKey(key));
+
+    const colors = ['#55A3FF', '#6C5CE7', '#FF9F43', '#1DD1A1', '#FF6384'];
+    const datasets = series.map((s, i) => {
+      const byDate = new Map(s.points.map(p => [getDateKey(p.date), p]));
+      const points = dateKeys.map(key => byDate.get(key));
+      const color = colors[i % colors.length];
+      return {
+        label: s.name,
+        data: points.map(
+            p => p ? Math.round(p.balance * 100) / 100 : null),
+        borderColor: color,
+        backgroundColor: color,
+        pointBackgroundColor: points.map(
+            p => p?.mismatch ? '#FF0000' : color),
+        pointRadius: points.map(p => p?.mismatch ? 5 : 3),
+        borderWidth: 2,
+        spanGaps: true,
+        tension: 0.3
+      };
+    });
+
+    const balanceTotalElement = document.getElementById('balanceTotal');
+    if (balanceTotalElement) {
+      const closing = series.reduce(
+          (sum, s) => sum + s.points[s.points.length - 1].balance, 0);
+      balanceTotalElement.textContent =
+          `${this.getCurrency()}${closing.toFixed(2)}`;
+    }
+
+    this.balanceChart = new Chart(ctx, {
+      type: 'line',
+      data: {labels, datasets},
+      options: {
+        responsive: true,
+        maintainAspectRatio: true,
+        scales: {
+          y: {title: {display: true, text: `Balance (${this.getCurrency()})`}},
+          x: {title: {display: true, text: 'Date'}}
+        },
+        plugins: {
+          legend: {position: 'top', labels: {boxWidth: 12, font: {size: 11}}},
+          tooltip: {
+            callbacks: {
+              label: (context) => {
+                const point = series[context.datasetIndex].points.find(
+                    p => getDateKey(p.date) ===
+                        dateKeys[context.dataIndex]);
+                if (!point) return '';
+                const result = [`${context.dataset.label}: ${
+                    this.getCurrency()}${point.balance.toFixed(2)}`];
+                if (point.mismatch) {
+                  result.push('Balance doesn\'t add up, see the import report');
+                }
+                return result;
+              }
+            }
+          }
+        }
+      }
+    });
+  }
+
+  // Income against expenses, and expenses by category, for every month of
+  // the loaded history rather than the selected period
+  private drawTrends(): void {
+    const tag = this.tagSelect.value;
+    const {converted} = this.convertTransactions(
+        this.netRefunds(this.transactions.filter(
+            t => (this.showTransfers || !this.transfers.has(t)) &&
+                (!tag || !!t.tags?.includes(tag)))));
+    const trends = getTrends(
+        converted, t => splitCategory(this.categorizeTransaction(t))[0]);
+
+    const labels = trends.months.map(month => {
+      const [year, monthNum] = month.split('-').map(Number);
+      return new Date(year, monthNum - 1)
+          .toLocaleDateString('en-US', {month: 'short', year: 'numeric'});
+    });
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const money = (amount: number) =>
+        `${this.getCurrency()}${amount.toFixed(2)}`;
+    const amountAxis = {
+      beginAtZero: true,
+      title: {display: true, text: `Amount (${this.getCurrency()})`}
+    };
+
+    if (this.trendChart) {
+      this.trendChart.destroy();
+      this.trendChart = null;
+    }
+    if (this.categoryTrendChart) {
+      this.categoryTrendChart.destroy();
+      this.categoryTrendChart = null;
+    }
+
+    const trendCanvas =
+        document.getElementById('trendChart') as HTMLCanvasElement;
+    const trendCtx = trendCanvas.getContext('2d');
+    if (trendCtx) {
+      this.trendChart = new Chart(trendCtx, {
+        type: 'bar',
+        data: {
+          labels,
+          datasets: [
+            {
+              label: 'Income',
+              data: trends.income.map(round),
+              backgroundColor: '#4ECDC4'
+            },
+            {
+              label: 'Expenses',
+              data: trends.expense.map(round),
+              backgroundColor: '#FF6B6B'
+            }
+          ]
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: true,
+          scales: {y: amountAxis},
+          plugins: {
+            legend: {position: 'top', labels: {boxWidth: 12, font: {size: 11}}}
+          }
+        }
+      });
+    }
+
+    const categoryCanvas =
+        document.getElementById('categoryTrendChart') as HTMLCanvasElement;
+    const categoryCtx = categoryCanvas.getContext('2d');
+    if (categoryCtx) {
+      this.categoryTrendChart = new Chart(categoryCtx, {
+        type: 'bar',
+        data: {
+          labels,
+          datasets: trends.categories.map((trend, i) => ({
+            label: trend.category,
+            data: trend.amounts.map(round),
+            backgroundColor: trendColors[i % trendColors.length]
+          }))
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: true,
+          scales: {x: {stacked: true}, y: {...amountAxis, stacked: true}},
+          plugins: {
+            legend:
+                {position: 'bottom', labels: {boxWidth: 12, font: {size: 11}}},
+            tooltip: {
+              callbacks: {
+                label: (context) => {
+                  const trend = trends.categories[context.datasetIndex];
+                  const amount = trend.amounts[context.dataIndex];
+                  const change = trend.changes[context.dataIndex];
+                  return change === null ?
+                      `${trend.category}: ${money(amount)}` :
+                      `${trend.category}: ${money(amount)} (${
+                          this.formatChange(change)} on the month before)`;
+                }
+              }
+            }
+          }
+        }
+      });
+    }
+
+    this.renderTrendTable(trends);
+  }
+
+  private renderTrendTable(trends: Trends): void {
+    this.trendTable.innerHTML = '';
+    const money = (amount: number) =>
+        `${this.getCurrency()}${amount.toFixed(2)}`;
+
+    const headRow = this.trendTable.appendChild(
+        document.createElement('thead')).insertRow();
+    ['Category', 'Monthly average', 'Minimum', 'Maximum', 'Last change']
+        .forEach(heading => {
+          const th = document.createElement('th');
+          th.textContent = heading;
+          headRow.appendChild(th);
+        });
+
+    const body = this.trendTable.appendChild(document.createElement('tbody'));
+    trends.categories.forEach(trend => {
+      const row = body.insertRow();
+      row.insertCell().textContent = trend.category;
+      [money(trend.average), money(trend.min), money(trend.max)].forEach(
+          text => {
+            const cell = row.insertCell();
+            cell.textContent = text;
+            cell.className = 'amount';
+          });
+      const change = trend.changes[trend.changes.length - 1];
+      const changeCell = row.insertCell();
+      changeCell.textContent =
+          change === null ? '–' : this.formatChange(change);
+      changeCell.className = 'amount';
+    });
+  }
+
+  private formatChange(change: number): string {
+    return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+  }
+
+  // Converts amounts into the reporting currency. Transactions in a currency
+  // with no exchange rate to it can't be added up and are returned apart.
+  private convertTransactions(transactions: Transaction[]):
+      {converted: Transaction[], unconverted: Transaction[]} {
+    const converted: Transaction[] = [];
+    const unconverted: Transaction[] = [];
+    transactions.forEach(t => {
+      const rate = this.getExchangeRate(t.currency, t.date);
+      if (rate === null) {
+        unconverted.push(t);
+      } else {
+        const copy = rate === 1 ? t : {...t, amount: t.amount * rate};
+        this.originals.set(copy, this.originals.get(t) || t);
+        converted.push(copy);
+      }
+    });
+    return {converted, unconverted};
+  }
+
+  // Amounts with no known currency are taken to be in the reporting currency
+  private getExchangeRate(currency: string|undefined, date: Date): number|
+      null {
+    return findRate(
+        this.exchangeRates, currency || this.reportingCurrency,
+        this.reportingCurrency, getDateKey(date));
+  }
+
+  private showConversionWarning(unconverted: Transaction[]): void {
+    const counts = new Map<string, number>();
+    unconverted.forEach(t => {
+      const currency = t.currency || '';
+      counts.set(currency, (counts.get(currency) || 0) + 1);
+    });
+
+    if (counts.size === 0) {
+      this.conversionWarning.style.display = 'none';
+      return;
+    }
+
+    const parts = Array.from(counts.entries())
+                      .map(([currency, count]) => `${count} in ${currency}`);
+    this.conversionWarning.textContent =
+        `Not included in the totals: ${unconverted.length} transaction${
+            unconverted.length === 1 ? '' : 's'} (${parts.join(', ')}). ` +
+        `Add an exchange rate to ${this.reportingCurrency} to include them.`;
+    this.conversionWarning.style.display = 'block';
+  }
+
+  // The currency most transactions are in
+  private getMainCurrency(): string {
+    const counts = new Map<string, number>();
+    this.transactions.forEach(t => {
+      if (t.currency) counts.set(t.currency, (counts.get(t.currency) || 0) + 1);
+    });
+    let main = 'EUR';
+    let mainCount = 0;
+    counts.forEach((count, currency) => {
+      if (count > mainCount) {
+        main = currency;
+        mainCount = count;
+      }
+    });
+    return main;
+  }
+
+  private populateCurrencyOptions(): void {
+    const currencies = new Set<string>(['EUR']);
+    if (this.reportingCurrency) currencies.add(this.reportingCurrency);
+    this.transactions.forEach(t => {
+      if (t.currency) currencies.add(t.currency);
+    });
+    this.exchangeRates.forEach(r => {
+      currencies.add(r.from);
+      currencies.add(r.to);
+    });
+
+    this.currencySelect.innerHTML = '';
+    Array.from(currencies).sort().forEach(currency => {
+      const option = document.createElement('option');
+      option.value = currency;
+      option.textContent = currency;
+      this.currencySelect.appendChild(option);
+    });
+    this.currencySelect.value = this.reportingCurrency || 'EUR';
+  }
+
+  private handleCurrencyChange(): void {
+    this.reportingCurrency = this.currencySelect.value;
+    localStorage.setItem(reportingCurrencyStorageKey, this.reportingCurrency);
+    this.updateCharts();
+  }
+
+  private renderExchangeRates(): void {
+    this.ratesTableBody.innerHTML = '';
+
+    this.exchangeRates.forEach((rate, index) => {
+      const row = document.createElement('tr');
+      const createInput = (type: string, value: string, size: number) => {
+        const input = document.createElement('input');
+        input.type = type;
+        input.value = value;
+        input.size = size;
+        const cell = document.createElement('td');
+        cell.appendChild(input);
+        row.appendChild(cell);
+        return input;
+      };
+      const dateInput = createInput('date', rate.date, 10);
+      const fromInput = createInput('text', rate.from, 4);
+      const toInput = createInput('text', rate.to, 4);
+      const rateInput = createInput('number', String(rate.rate), 8);
+      rateInput.step = 'any';
+
+      const update = () => {
+        const updated = {
+          date: dateInput.value,
+          from: normalizeCurrency(fromInput.value),
+          to: normalizeCurrency(toInput.value),
+          rate: parseFloat(rateInput.value)
+        };
+        // Keep the last valid rate until the row is complete
+        const valid = isExchangeRate(updated);
+        row.classList.toggle('invalid', !valid);
+        if (!valid) return;
+        this.exchangeRates[index] = updated;
+        this.handleExchangeRatesChange();
+      };
+      [dateInput, fromInput, toInput, rateInput].forEach(
+          input => input.addEventListener('change', update));
+
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        this.exchangeRates.splice(index, 1);
+        this.renderExchangeRates();
+        this.handleExchangeRatesChange();
+      });
+      const removeCell = document.createElement('td');
+      removeCell.appendChild(removeButton);
+      row.appendChild(removeCell);
+
+      this.ratesTableBody.appendChild(row);
+    });
+  }
+
+  private addExchangeRate(): void {
+    const reporting = this.reportingCurrency || 'EUR';
+    const other = this.transactions.find(
+        t => t.currency && t.currency !== reporting);
+    this.exchangeRates.push({
+      date: getDateKey(new Date()),
+      from: other?.currency || 'USD',
+      to: reporting,
+      rate: 1
+    });
+    this.renderExchangeRates();
+    this.handleExchangeRatesChange();
+  }
+
+  private renderMerchantAliases(): void {
+    this.aliasesTableBody.innerHTML = '';
+
+    this.merchantAliases.forEach((alias, index) => {
+      const row = document.createElement('tr');
+      const addCell = (control: HTMLElement) => {
+        const cell = document.createElement('td');
+        cell.appendChild(control);
+        row.appendChild(cell);
+      };
+      const matchSelect = this.createSelect(
+          [['contains', 'contains'], ['equals', 'equals'], ['regex', 'regex']]);
+      matchSelect.value = alias.match;
+      addCell(matchSelect);
+      const patternInput = document.createElement('input');
+      patternInput.type = 'text';
+      patternInput.size = 24;
+      patternInput.value = alias.pattern;
+      addCell(patternInput);
+      const merchantInput = document.createElement('input');
+      merchantInput.type = 'text';
+      merchantInput.size = 16;
+      merchantInput.value = alias.merchant;
+      addCell(merchantInput);
+
+      const update = () => {
+        const updated = {
+          merchant: merchantInput.value.trim(),
+          match: matchSelect.value as RuleMatch,
+          pattern: patternInput.value
+        };
+        // Keep the last valid alias until the row is fixed
+        const valid = isMerchantAlias(updated);
+        row.classList.toggle('invalid', !valid);
+        if (!valid) return;
+        this.merchantAliases[index] = updated;
+        this.handleMerchantAliasesChange();
+      };
+      [matchSelect, patternInput, merchantInput].forEach(
+          control => control.addEventListener('change', update));
+
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        this.merchantAliases.splice(index, 1);
+        this.renderMerchantAliases();
+        this.handleMerchantAliasesChange();
+      });
+      addCell(removeButton);
+
+      this.aliasesTableBody.appendChild(row);
+    });
+  }
+
+  private addMerchantAlias(): void {
+    this.merchantAliases.push(
+        {merchant: 'New merchant', match: 'contains', pattern: ''});
+    this.renderMerchantAliases();
+  }
+
+  private handleMerchantAliasesChange(): void {
+    saveJson(merchantAliasStorageKey, this.merchantAliases);
+    this.renderMerchantSuggestions();
+    this.updateCharts();
+  }
+
+  // Recipient names that look alike, each group with a button to merge it
+  // into one merchant or to keep its names apart for good
+  private renderMerchantSuggestions(): void {
+    this.merchantSuggestions.innerHTML = '';
+    const clusters = suggestMerchantClusters(
+        this.transactions.map(t => t.recipient), this.merchantAliases);
+    if (clusters.length === 0) return;
+
+    const heading = document.createElement('p');
+    heading.textContent = `Recipients that may be the same merchant (${
+        clusters.length}):`;
+    this.merchantSuggestions.appendChild(heading);
+
+    const list = document.createElement('ul');
+    clusters.slice(0, merchantSuggestionLimit).forEach(cluster => {
+      const item = document.createElement('li');
+      const names = document.createTextNode(`${cluster.names.join(', ')} → `);
+      item.appendChild(names);
+      const merchantInput = document.createElement('input');
+      merchantInput.type = 'text';
+      merchantInput.size = 16;
+      merchantInput.value = cluster.merchant;
+      item.appendChild(merchantInput);
+
+      const addAliases = (getMerchant: (name: string) => string) => {
+        cluster.names.forEach(name => this.merchantAliases.push({
+          merchant: getMerchant(name),
+          match: 'equals',
+          pattern: name
+        }));
+        this.renderMerchantAliases();
+        this.handleMerchantAliasesChange();
+      };
+      const mergeButton = document.createElement('button');
+      mergeButton.textContent = 'Merge';
+      mergeButton.addEventListener('click', () => {
+        const merchant = merchantInput.value.trim();
+        if (merchant) addAliases(() => merchant);
+      });
+      const keepButton = document.createElement('button');
+      keepButton.textContent = 'Keep separate';
+      keepButton.addEventListener('click', () => addAliases(name => name));
+      item.appendChild(mergeButton);
+      item.appendChild(keepButton);
+      list.appendChild(item);
+    });
+    this.merchantSuggestions.appendChild(list);
+  }
+
+  private showTransferNote(count: number): void {
+    const action = this.showTransfers ? 'included in' : 'left out of';
+    this.transferNote.textContent = count === 0 ?
+        '' :
+        `${count} transfer${count === 1 ? '' : 's'} between your accounts ${
+            count === 1 ? 'is' : 'are'} ${action} the totals in this period.`;
+  }
+
+  private renderOwnAccounts(): void {
+    this.accountsTableBody.innerHTML = '';
+
+    this.ownAccounts.forEach((account, index) => {
+      const row = document.createElement('tr');
+      const createInput = (value: string, size: number, hint: string) => {
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.value = value;
+        input.size = size;
+        input.placeholder = hint;
+        const cell = document.createElement('td');
+        cell.appendChild(input);
+        row.appendChild(cell);
+        return input;
+      };
+      const nameInput = createInput(account.name, 14, 'e.g. NLB savings');
+      const ibanInput = createInput(account.iban, 24, 'SI56 …');
+      const aliasesInput =
+          createInput(account.aliases.join(', '), 24, 'Comma-separated');
+
+      const update = () => {
+        this.ownAccounts[index] = {
+          name: nameInput.value.trim(),
+          iban: normalizeIban(ibanInput.value),
+          aliases: aliasesInput.value.split(',')
+                       .map(alias => alias.trim())
+                       .filter(alias => alias !== '')
+        };
+        this.handleOwnAccountsChange();
+      };
+      [nameInput, ibanInput, aliasesInput].forEach(
+          input => input.addEventListener('change', update));
+
+      const removeButton = document.createElement('button');
+      removeButton.textContent = 'Remove';
+      removeButton.addEventListener('click', () => {
+        this.ownAccounts.splice(index, 1);
+        this.renderOwnAccounts();
+        this.handleOwnAccountsChange();
+      });
+      const removeCell = document.createElement('td');
+      removeCell.appendChild(removeButton);
+      row.appendChild(removeCell);
+
+      this.accountsTableBody.appendChild(row);
+    });
+  }
+
+  // Checks the period's spending against the history before it, in the
+  // reporting currency and without transfers or refunded amounts
+  private renderAlerts(period: Period): void {
+    const {converted} = this.convertTransactions(
+        this.netRefunds(this.transactions.filter(
+            t => t.type === 'expense' && !this.transfers.has(t))));
+    const alerts = findAlerts(
+        converted, period, this.alertSettings,
+        t => splitCategory(this.categorizeTransaction(t))[0],
+        t => getMerchantName(t.recipient, this.merchantAliases),
+        this.getDailyData(converted));
+    const visible = alerts.filter(a => !this.dismissedAlerts.includes(a.key));
+
+    this.alertList.innerHTML = '';
+    visible.forEach(alert => {
+      const item = document.createElement('div');
+      item.className = 'alert';
+      const text = document.createElement('span');
+      text.textContent = this.formatAlert(alert);
+      item.appendChild(text);
+
+      const dismissBtn = document.createElement('button');
+      dismissBtn.textContent = 'Dismiss';
+      dismissBtn.addEventListener('click', () => {
+        this.dismissedAlerts.push(alert.key);
+        saveJson(dismissedAlertStorageKey, this.dismissedAlerts);
+        this.updateCharts();
+      });
+      item.appendChild(dismissBtn);
+      this.alertList.appendChild(item);
+    });
+
+    const dismissed = alerts.length - visible.length;
+    this.restoreAlertsBtn.textContent = `Show ${dismissed} dismissed`;
+    this.restoreAlertsBtn.style.display =
+        dismissed > 0 ? 'inline-block' : 'none';
+  }
+
+  private formatAlert(alert: SpendingAlert): string {
+    const money = (amount: number) =>
+        `${this.getCurrency()}${amount.toFixed(2)}`;
+    const date = alert.transactions[0].date.toLocaleDateString();
+    const times = `${(alert.amount / alert.usual).toFixed(1)}×`;
+
+    if (alert.kind === 'category') {
+      return `${alert.label}: ${money(alert.amount)} in this period, ${
+          times} the usual ${money(alert.usual)} of the ${
+          this.alertSettings.categoryMonths} months before`;
+    }
+    if (alert.kind === 'newRecipient') {
+      return `First payment to ${alert.label}: ${money(alert.amount)} on ${
+          date}`;
+    }
+    if (alert.kind === 'duplicate') {
+      return `${alert.transactions.length} charges of ${
+          money(alert.amount)} from ${alert.label} on ${date}`;
+    }
+    return `${money(alert.amount)} spent on ${date}, ${times} a typical day (${
+        money(alert.usual)})`;
+  }
+
+  // Keeps the last valid value of a setting that was cleared or mistyped
+  private handleAlertSettingsChange(): void {
+    (Object.keys(this.alertSettingInputs) as (keyof AlertSettings)[])
+        .forEach(key => {
+          const input = this.alertSettingInputs[key];
+          const value = parseFloat(input.value);
+          if (!isNaN(value) && value >= 0) this.alertSettings[key] = value;
+          input.value = String(this.alertSettings[key]);
+        });
+    saveJson(alertSettingsStorageKey, this.alertSettings);
+    this.updateCharts();
+  }
+
+  private addOwnAccount(): void {
+    this.ownAccounts.push({name: '', iban: '', aliases: []});
+    this.renderOwnAccounts();
+  }
+
+  private handleOwnAccountsChange(): void {
+    saveJson(ownAccountStorageKey, this.ownAccounts);
+    this.transfers = findTransfers(this.transactions, this.ownAccounts);
+    this.updateCharts();
+  }
+
+  private handleExchangeRatesChange(): void {
+    saveJson(exchangeRateStorageKey, this.exchangeRates);
+    this.populateCurrencyOptions();
+    this.updateCharts();
+  }
+
+  private exportExchangeRates(): void {
+    if (this.exchangeRates.length === 0) {
+      this.showError('There are no exchange rates to export yet.');
+      return;
+    }
+
+    downloadJson('bank-bee-exchange-rates.json', this.exchangeRates);
+  }
+
+  // Accepts the exported JSON or "date,from,to,rate" CSV lines. Imported
+  // rates replace existing ones for the same date and currency pair.
+  private async importExchangeRates(file: File): Promise<void> {
+    this.hideError();
+    try {
+      const text = await file.text();
+      const rates = text.trimStart().startsWith('[') ?
+          (JSON.parse(text) as any[]).filter(isExchangeRate) :
+          parseExchangeRatesCsv(text);
+
+      if (rates.length === 0) {
+        this.showError(`No exchange rates found in ${file.name}`);
+        return;
+      }
+
+      const rateKey = (r: ExchangeRate) => `${r.date}|${r.from}|${r.to}`;
+      const imported = new Set(rates.map(rateKey));
+      this.exchangeRates = [
+        ...this.exchangeRates.filter(r => !imported.has(rateKey(r))), ...rates
+      ];
+      this.renderExchangeRates();
+      this.handleExchangeRatesChange();
+
+      this.fileInfo.textContent = `Imported ${rates.length} exchange rate${
+          rates.length === 1 ? '' : 's'} from ${file.name}`;
+      this.fileInfo.style.display = 'block';
+    } catch (error) {
+      this.showError(
+          'Error importing exchange rates: ' + (error as Error).message);
+    }
+  }
+
+  // Inside a parent category the charts only cover part of the period, so
+  // the period's totals are shown next to them
   private updateTotals(
-      expenseData: MonthlySpending, incomeData: MonthlySpending): void {
+      expenseData: MonthlySpending, incomeData: MonthlySpending,
+      periodTotals?: {[type in Transaction['type']]: number}): void {
     const expenseTotal =
         Object.values(expenseData).reduce((sum, amount) => sum + amount, 0);
     const incomeTotal =
@@ -1057,13 +3778,22 @@ class ExcelParser {
 
     const expenseTotalElement = document.getElementById('expenseTotal');
     const incomeTotalElement = document.getElementById('incomeTotal');
+    const formatTotal = (total: number, periodTotal: number|undefined) => {
+      const text = `${this.getCurrency()}${total.toFixed(2)}`;
+      const whole = periodTotal === undefined ?
+          text :
+          `${this.getCurrency()}${periodTotal.toFixed(2)}`;
+      return whole === text ? text : `${text} of ${whole}`;
+    };
 
     if (expenseTotalElement) {
-      expenseTotalElement.textContent = `${this.getCurrency()}${expenseTotal.toFixed(2)}`;
+      expenseTotalElement.textContent =
+          formatTotal(expenseTotal, periodTotals?.expense);
     }
 
     if (incomeTotalElement) {
-      incomeTotalElement.textContent = `${this.getCurrency()}${incomeTotal.toFixed(2)}`;
+      incomeTotalElement.textContent =
+          formatTotal(incomeTotal, periodTotals?.income);
     }
   }
 
@@ -1071,39 +3801,118 @@ class ExcelParser {
     const validTypes = [
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',  // .xlsx
       'application/vnd.ms-excel',  // .xls
-      'text/csv'
+      'text/csv',
+      'application/x-ofx',  // .ofx
+      'application/vnd.intu.qfx',  // .qfx
+      'application/xml',  // camt .xml
+      'text/xml',
+      'text/plain'  // MT940
+    ];
+    const validExtensions = [
+      '.xlsx', '.xls', '.csv', '.ofx', '.qfx', '.xml', '.053', '.052', '.sta',
+      '.mt940', '.940', '.txt'
     ];
-    const validExtensions = ['.xlsx', '.xls', '.csv'];
 
-    // Check basic file type support
-    const isValidType = validTypes.includes(file.type) ||
+    return validTypes.includes(file.type) ||
         validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
+  }
 
-    if (!isValidType) {
-      return false;
-    }
+  private showImportSummary(summaries: ImportSummary[]): void {
+    this.fileInfo.innerHTML = '';
 
-    // Special validation for Erste Bank - they use .xls format
-    if (this.currentBank === 'erste') {
-      const isXlsFile = file.name.toLowerCase().endsWith('.xls') ||
-          file.type === 'application/vnd.ms-excel';
-      if (!isXlsFile) {
-        this.showError(
-            'Erste Bank statements should be in .xls format. Please download your statement as Excel file from Erste Bank.');
-        return false;
+    summaries.forEach(summary => {
+      const line = document.createElement('div');
+      const name = document.createElement('strong');
+      name.textContent = summary.fileName;
+      line.appendChild(name);
+
+      let details = ` (${this.formatFileSize(summary.fileSize)})`;
+      if (summary.bankName) {
+        details += ` - ${summary.bankName}${
+            summary.bankDetected ? ' (detected)' : ''}`;
+      }
+      if (summary.encoding) details += `, ${encodingLabels[summary.encoding]}`;
+      if (summary.error) {
+        details += `: ${summary.error}`;
+      } else {
+        details += `: ${summary.merged} transactions merged, ${
+            summary.skipped} duplicates skipped`;
+        if (summary.issues.length > 0) {
+          details += `, ${summary.issues.length} rows not imported`;
+        }
+        if (summary.mismatches.length > 0) {
+          details += `, ${summary.mismatches.length} balance mismatches`;
+        }
       }
+      line.appendChild(document.createTextNode(details));
+      this.fileInfo.appendChild(line);
+
+      (summary.accounts || []).forEach(account => {
+        const accountLine = document.createElement('div');
+        accountLine.className = 'account-info';
+        accountLine.textContent = this.formatAccount(account);
+        this.fileInfo.appendChild(accountLine);
+      });
+    });
+
+    this.fileInfo.style.display = 'block';
+  }
+
+  // Lists every statement row that was skipped or couldn't be parsed, and
+  // every balance that doesn't add up, so the totals can be checked against
+  // the statement
+  private showImportReport(summaries: ImportSummary[]): void {
+    const toRows = (getIssues: (summary: ImportSummary) => RowIssue[]) =>
+        summaries.flatMap(
+            summary => getIssues(summary).map(
+                issue =>
+                    [summary.fileName, issue.rowNumber ?? '', issue.reason,
+                     issue.content]));
+    const skippedRows = toRows(summary => summary.issues);
+    const mismatchRows = toRows(summary => summary.mismatches);
+
+    this.importReport.innerHTML = '';
+    if (skippedRows.length === 0 && mismatchRows.length === 0) {
+      this.hideImportReport();
+      return;
     }
 
-    return true;
+    const addSection = (heading: string, rows: any[][]) => {
+      if (rows.length === 0) return;
+      const details = document.createElement('details');
+      const title = document.createElement('summary');
+      title.textContent = heading;
+      details.appendChild(title);
+      details.appendChild(this.createTable({
+        sheetName: heading,
+        headers: ['File', 'Row', 'Reason', 'Row content'],
+        rows
+      }));
+      this.importReport.appendChild(details);
+    };
+    addSection(
+        `Import report: ${skippedRows.length} row${
+            skippedRows.length === 1 ? ' was' : 's were'} not imported`,
+        skippedRows);
+    addSection(
+        `Balance check: ${mismatchRows.length} balance${
+            mismatchRows.length === 1 ? ' doesn\'t' : 's don\'t'} add up`,
+        mismatchRows);
+
+    this.importReport.style.display = 'block';
   }
 
-  private showFileInfo(file: File): void {
-    this.fileInfo.innerHTML = `
-            <strong>File:</strong> ${file.name}<br>
-            <strong>Size:</strong> ${this.formatFileSize(file.size)}<br>
-            <strong>Type:</strong> ${file.type || 'Unknown'}
-        `;
-    this.fileInfo.style.display = 'block';
+  private hideImportReport(): void {
+    this.importReport.style.display = 'none';
+  }
+
+  private formatAccount(account: AccountStatement): string {
+    const formatBalance = (balance: number|undefined) => balance === undefined ?
+        'n/a' :
+        `${balance.toFixed(2)} ${account.currency}`;
+    return `Account ${account.iban || 'unknown'}: opening balance ${
+        formatBalance(account.openingBalance)}, closing balance ${
+        formatBalance(account.closingBalance)}`;
   }
 
   private formatFileSize(bytes: number): string {
@@ -1147,23 +3956,46 @@ class ExcelParser {
     this.tableHead.innerHTML = '';
     this.tableBody.innerHTML = '';
 
+    const table = this.createTable(data);
+    this.tableHead.append(...Array.from(table.tHead?.children || []));
+    this.tableBody.append(...Array.from(table.tBodies[0].children));
+  }
+
+  private createTable(data: ParsedData): HTMLTableElement {
+    const table = document.createElement('table');
+    const thead = table.createTHead();
+    const tbody = table.createTBody();
+
     const headerRow = document.createElement('tr');
     data.headers.forEach(header => {
       const th = document.createElement('th');
       th.textContent = header;
       headerRow.appendChild(th);
     });
-    this.tableHead.appendChild(headerRow);
+    thead.appendChild(headerRow);
 
     data.rows.forEach(row => {
       const tr = document.createElement('tr');
       data.headers.forEach((_, index) => {
         const td = document.createElement('td');
-        td.textContent = row[index] || '';
+        td.textContent = formatCell(row[index]);
         tr.appendChild(td);
       });
-      this.tableBody.appendChild(tr);
+      tbody.appendChild(tr);
     });
+
+    const hidden = (data.rowCount ?? data.rows.length) - data.rows.length;
+    if (hidden > 0) {
+      const tr = document.createElement('tr');
+      const td = document.createElement('td');
+      td.className = 'more-rows';
+      td.colSpan = data.headers.length;
+      td.textContent = `… and ${hidden} more row${hidden === 1 ? '' : 's'}`;
+      tr.appendChild(td);
+      tbody.appendChild(tr);
+    }
+
+    return table;
   }
 
   private showTable(): void {
@@ -1201,46 +4033,79 @@ class ExcelParser {
     }
   }
 
+  // Shows the bank or statement format picked in the bank list, if any
   private updateBankLogo(): void {
-    const config = bankConfigs[this.currentBank];
+    const bankKey = this.bankOverride || '';
+    const config = bankConfigs[bankKey];
+    const format = statementFormats[bankKey];
     if (this.bankLogo && config) {
       this.bankLogo.src = config.logo;
       this.bankLogo.alt = `${config.name} Logo`;
+    } else if (this.bankLogo) {
+      this.bankLogo.src = bankBeeLogo;
+      this.bankLogo.alt = format ? format.name : 'Bank Bee CSV Logo';
     }
     this.updateUploadText();
   }
 
   private updateUploadText(): void {
-    const config = bankConfigs[this.currentBank];
-    if (this.uploadText && this.uploadSubtext && config) {
-      if (this.currentBank === 'erste') {
-        this.uploadText.textContent =
-            'Drag and drop your Erste Bank .xls statement file here';
-        this.uploadSubtext.textContent =
-            'Download as Excel file (Erste Bank online banking)';
-      } else {
-        this.uploadText.textContent =
-            `Drag and drop your ${config.name} CSV statement file here`;
-        this.uploadSubtext.textContent =
-            'Download from your bank\'s statements page with appropriate date filters';
-      }
+    if (!this.uploadText || !this.uploadSubtext) return;
+    const bankKey = this.bankOverride || '';
+    const config = bankConfigs[bankKey];
+    const format = statementFormats[bankKey];
+    this.uploadSubtext.textContent =
+        'Download from your bank\'s statements page with appropriate date filters';
+    if (format) {
+      this.uploadText.textContent =
+          `Drag and drop your ${format.fileTypes} statement files here`;
+    } else if (bankKey === 'erste') {
+      this.uploadText.textContent =
+          'Drag and drop your Erste Bank .xls statement files here';
+      this.uploadSubtext.textContent =
+          'Download as Excel file (Erste Bank online banking)';
+    } else if (config) {
+      this.uploadText.textContent =
+          `Drag and drop your ${config.name} CSV statement files here`;
+    } else {
+      this.uploadText.textContent =
+          'Drag and drop your bank statement files here';
+    }
+  }
+
+  private handleEncodingChange(): void {
+    this.encodingOverride = (this.encodingSelect.value || null) as
+        TextEncoding | null;
+
+    // Re-read the loaded statements with the chosen encoding
+    if (this.lastFiles.length > 0) {
+      this.processFiles(this.lastFiles);
     }
   }
 
+  private populateEncodingOptions(): void {
+    Object.keys(encodingLabels).forEach(encoding => {
+      const option = document.createElement('option');
+      option.value = encoding;
+      option.textContent = encodingLabels[encoding as TextEncoding];
+      this.encodingSelect.appendChild(option);
+    });
+  }
+
+  // Picking a bank skips detection for spreadsheet files, and picking a
+  // statement format reads every file as that format
   private handleBankChange(event: Event): void {
     const select = event.target as HTMLSelectElement;
-    this.currentBank = select.value;
+    this.bankOverride = select.value || null;
     this.updateBankLogo();
 
-    // Clear any existing data when switching banks
-    this.hideTable();
-    this.hideCharts();
-    this.hideError();
-    this.parsedSheets = [];
-    this.transactions = [];
+    // Re-read the loaded statements as the chosen bank's
+    if (this.lastFiles.length > 0) {
+      this.processFiles(this.lastFiles);
+    }
   }
 }
 
 document.addEventListener('DOMContentLoaded', () => {
+  loadCustomBankConfigs();
   new ExcelParser();
 });
\ No newline at end of file
@@ -0,0 +1,142 @@
+import {getRuleRegex, matchesPattern, RuleMatch} from './rules';
+
+// Gives every recipient name that matches `pattern` one merchant name, e.g.
+// "SPAR SI 123 MARIBOR" and "SPAR SLOVENIJA LJ" both become "SPAR"
+export interface MerchantAlias {
+  merchant: string;
+  match: RuleMatch;
+  pattern: string;
+}
+
+// A group of recipient names that look like the same merchant
+export interface MerchantCluster {
+  merchant: string;  // Suggested name for the group
+  names: string[];
+}
+
+// Names at least this similar are suggested as one merchant
+export const similarityThreshold = 0.7;
+
+const legalForms = /(^|\s)(PODJETJE|D\.O\.O\.|D\.D\.|S\.P\.|K\.D\.)(?=\s|$)/g;
+
+// Upper-cased name without the legal form, e.g. "SPAR SLOVENIJA"
+export function normalizeRecipient(name: string): string {
+  if (!name) return '';
+  return name.toUpperCase()
+      .replace(legalForms, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+}
+
+// The first alias that matches the raw or the normalized name
+export function findAlias(recipient: string, aliases: MerchantAlias[]):
+    MerchantAlias|undefined {
+  const normalized = normalizeRecipient(recipient);
+  return aliases.find(
+      a => a.pattern !== '' &&
+          (matchesPattern(a.match, a.pattern, recipient || '') ||
+           matchesPattern(a.match, a.pattern, normalized)));
+}
+
+// Recipients without an alias are their own merchant
+export function getMerchantName(recipient: string, aliases: MerchantAlias[]):
+    string {
+  return findAlias(recipient, aliases)?.merchant ||
+      normalizeRecipient(recipient);
+}
+
+// Dice coefficient of the names' letter pairs, from 0 to 1
+export function getSimilarity(a: string, b: string): number {
+  const pairs = (text: string) => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const pair = text.substring(i, i + 2);
+      counts.set(pair, (counts.get(pair) || 0) + 1);
+    }
+    return counts;
+  };
+  const pairsA = pairs(a);
+  const pairsB = pairs(b);
+  const total = Math.max(a.length - 1, 0) + Math.max(b.length - 1, 0);
+  if (total === 0) return a === b ? 1 : 0;
+
+  let shared = 0;
+  pairsA.forEach((count, pair) => {
+    shared += Math.min(count, pairsB.get(pair) || 0);
+  });
+  return 2 * shared / total;
+}
+
+// Groups the recipients that no alias covers yet: names that start with the
+// same word, or are similar as a whole. Largest groups come first.
+export function suggestMerchantClusters(
+    recipients: string[], aliases: MerchantAlias[]): MerchantCluster[] {
+  const names = Array.from(new Set(
+      recipients.filter(r => !findAlias(r, aliases))
+          .map(normalizeRecipient)
+          .filter(name => name.length >= 3)));
+
+  // Union-find over the names
+  const parents = names.map((_, i) => i);
+  const find = (i: number): number =>
+      parents[i] === i ? i : (parents[i] = find(parents[i]));
+  const union = (i: number, j: number) => {
+    parents[find(i)] = find(j);
+  };
+
+  // Comparing every pair is too slow for long histories, so only names that
+  // share their first two letters are compared
+  const groupBy = (getKey: (name: string) => string) => {
+    const groups = new Map<string, number[]>();
+    names.forEach((name, i) => {
+      const key = getKey(name);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(i);
+    });
+    return Array.from(groups.values());
+  };
+  groupBy(name => name.split(' ')[0]).forEach(group => {
+    if (names[group[0]].split(' ')[0].length < 3) return;
+    group.slice(1).forEach(i => union(i, group[0]));
+  });
+  groupBy(name => name.substring(0, 2)).forEach(group => {
+    group.forEach((i, index) => group.slice(index + 1).forEach(j => {
+      if (find(i) !== find(j) &&
+          getSimilarity(names[i], names[j]) >= similarityThreshold) {
+        union(i, j);
+      }
+    }));
+  });
+
+  const clusters = new Map<number, string[]>();
+  names.forEach((name, i) => {
+    const root = find(i);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root)!.push(name);
+  });
+
+  return Array.from(clusters.values())
+      .filter(group => group.length > 1)
+      .map(group => ({merchant: getCommonName(group), names: group.sort()}))
+      .sort((a, b) => b.names.length - a.names.length);
+}
+
+// The words all names start with, or else the shortest name
+function getCommonName(names: string[]): string {
+  const words = names.map(name => name.split(' '));
+  const common: string[] = [];
+  for (let i = 0; words.every(w => i < w.length && w[i] === words[0][i]); i++) {
+    common.push(words[0][i]);
+  }
+  return common.length > 0 ?
+      common.join(' ') :
+      names.reduce((a, b) => b.length < a.length ? b : a);
+}
+
+export function isMerchantAlias(value: any): value is MerchantAlias {
+  return !!value && typeof value === 'object' &&
+      typeof value.merchant === 'string' && value.merchant !== '' &&
+      ['contains', 'equals', 'regex'].includes(value.match) &&
+      typeof value.pattern === 'string' &&
+      (value.match !== 'regex' || getRuleRegex(value.pattern) !== null);
+}
@@ -0,0 +1,65 @@
+import {describe, expect, it} from 'vitest';
+
+import {isMt940, parseMt940} from './mt940';
+
+const statement = [
+  ':20:STATEMENT1',
+  ':25:SI56 1910 0000 0123 438',
+  ':28C:1/1',
+  ':60F:C250303EUR1000,00',
+  ':61:2503040304D12,50NTRFNONREF//123',
+  ':86:?20Groceries?21for the week?32SPAR?31SI56191000000123438',
+  ':61:2503050305C100,NTRFSALARY',
+  ':86:/NAME/Employer d.o.o./REMI/Salary March',
+  ':61:2503060306RD12,50NTRFNONREF',
+  ':62F:C250306EUR1100,00',
+  '-'
+].join('\r\n');
+
+describe('isMt940', () => {
+  it('needs a reference and a balance or statement line', () => {
+    expect(isMt940(statement)).toBe(true);
+    expect(isMt940(':20:REF\nfree text')).toBe(false);
+  });
+});
+
+describe('parseMt940', () => {
+  it('reads the account and its balances', () => {
+    expect(parseMt940(statement).accounts).toEqual([{
+      iban: 'SI56191000000123438',
+      currency: 'EUR',
+      openingBalance: 1000,
+      closingBalance: 1100
+    }]);
+  });
+
+  it('reads statement lines with their remittance information', () => {
+    const [groceries, salary, reversal] = parseMt940(statement).transactions;
+    expect(groceries).toEqual({
+      date: new Date(2025, 2, 4),
+      amount: 12.5,
+      description: 'Groceries for the week',
+      recipient: 'SPAR',
+      type: 'expense',
+      account: 'SI56191000000123438',
+      currency: 'EUR',
+      counterpartyIban: 'SI56191000000123438'
+    });
+    expect(salary).toMatchObject({
+      amount: 100,
+      description: 'Salary March',
+      recipient: 'Employer d.o.o.',
+      type: 'income'
+    });
+    // A reversed debit puts the money back
+    expect(reversal).toMatchObject({amount: 12.5, type: 'income'});
+  });
+
+  it('does not attach a :86: of a new statement to an earlier entry', () => {
+    const text = [
+      ':20:ONE', ':25:SI56111', ':60F:C250303EUR0,00',
+      ':61:2503040304D5,00NTRFNONREF', ':20:TWO', ':86:Stray text'
+    ].join('\n');
+    expect(parseMt940(text).transactions[0].description).toBe('Unknown');
+  });
+});
@@ -0,0 +1,172 @@
+import {AccountStatement, ParsedStatement, Transaction} from './types';
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+interface Remittance {
+  description: string;
+  recipient: string;
+  iban: string;
+}
+
+// "?20" to "?29" and "?60" to "?63" hold the payment purpose
+const purposeSubfields =
+    [20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 60, 61, 62, 63];
+
+export function isMt940(text: string): boolean {
+  return /^:20:/m.test(text) && /^:(60[FM]|61):/m.test(text);
+}
+
+export function parseMt940(text: string): ParsedStatement {
+  const result: ParsedStatement = {accounts: [], transactions: []};
+  let account: AccountStatement|null = null;
+  let pending: Transaction|null = null;
+
+  getFields(text).forEach(({tag, value}) => {
+    switch (tag) {
+      case '20':
+        // Transaction reference, starts a new statement. Entries are already
+        // in the result, and a :86: from here on isn't about them.
+        account = null;
+        pending = null;
+        break;
+      case '25':
+        account = {iban: value.replace(/\s+/g, ''), currency: ''};
+        result.accounts.push(account);
+        break;
+      case '60F':
+      case '60M':
+        if (account && account.openingBalance === undefined) {
+          const balance = parseBalance(value);
+          if (balance) {
+            account.currency = balance.currency;
+            account.openingBalance = balance.amount;
+          }
+        }
+        break;
+      case '62F':
+      case '62M':
+        if (account) {
+          const balance = parseBalance(value);
+          if (balance) account.closingBalance = balance.amount;
+        }
+        break;
+      case '61':
+        pending = parseStatementLine(value, account);
+        if (pending) result.transactions.push(pending);
+        break;
+      case '86':
+        // Information to account owner, describes the preceding :61: line
+        if (pending) {
+          const remittance = parseRemittance(value);
+          pending.description = remittance.description || pending.description;
+          pending.recipient = remittance.recipient || pending.recipient;
+          if (remittance.iban) pending.counterpartyIban = remittance.iban;
+          pending = null;
+        }
+        break;
+    }
+  });
+
+  return result;
+}
+
+// Splits the message into ":tag:value" fields, joining continuation lines
+function getFields(text: string): Field[] {
+  const fields: Field[] = [];
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (match) {
+      fields.push({tag: match[1], value: match[2]});
+    } else if (fields.length > 0 && !/^-\}?$|^\{/.test(line.trim())) {
+      fields[fields.length - 1].value += '\n' + line;
+    }
+  });
+  return fields;
+}
+
+// e.g. "C250304EUR1234,56"
+function parseBalance(value: string): {amount: number, currency: string}|null {
+  const match = /^([CD])\d{6}([A-Z]{3})([\d,]+)/.exec(value);
+  if (!match) return null;
+  const amount = parseAmount(match[3]);
+  return {amount: match[1] === 'D' ? -amount : amount, currency: match[2]};
+}
+
+// Value date YYMMDD, optional entry date MMDD, debit/credit mark, optional
+// funds code and the amount, e.g. "2503040304D12,50NTRFNONREF//123"
+function parseStatementLine(value: string, account: AccountStatement|null):
+    Transaction|null {
+  const match =
+      /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)[A-Z]?([\d,]+)(.*)/.exec(
+          value);
+  if (!match) return null;
+
+  const date = new Date(
+      2000 + parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+  const amount = parseAmount(match[6]);
+  if (isNaN(amount) || amount === 0) return null;
+
+  // A reversed credit takes money out, a reversed debit puts it back
+  const mark = match[5];
+  const isCredit = mark === 'C' || mark === 'RD';
+  // Transaction type code (e.g. NTRF), then the customer reference
+  const reference =
+      match[7].split('\n')[0].replace(/^[A-Z]\w{3}/, '').split('//')[0].trim();
+
+  return {
+    date,
+    amount,
+    description: reference && reference !== 'NONREF' ? reference : 'Unknown',
+    recipient: 'Unknown',
+    type: isCredit ? 'income' : 'expense',
+    account: account?.iban || undefined,
+    currency: account?.currency || undefined
+  };
+}
+
+// :86: content is free text or one of two common structured layouts:
+// "?20purpose?32name" subfields or "/NAME/name/REMI/purpose" keywords
+function parseRemittance(value: string): Remittance {
+  const text = value.replace(/\n/g, '');
+
+  if (/\?\d{2}/.test(text)) {
+    const subfields = text.split(/\?(?=\d{2})/).slice(1);
+    const get = (codes: number[]) =>
+        subfields.filter(f => codes.includes(parseInt(f.slice(0, 2))))
+            .map(f => f.slice(2).trim())
+            .join(' ')
+            .trim();
+    return {
+      description: get(purposeSubfields) || get([0]),
+      recipient: get([32, 33]),
+      iban: get([31])
+    };
+  }
+
+  if (/\/(NAME|REMI|ORDP|BENM)\//.test(text)) {
+    const keywords: {[key: string]: string} = {};
+    const parts = text.split(/\/(?=[A-Z]{3,4}\/)/);
+    parts.forEach(part => {
+      const match = /^([A-Z]{3,4})\/(.*)$/.exec(part);
+      if (match && !(match[1] in keywords)) {
+        keywords[match[1]] = match[2].replace(/^\/+|\/+$/g, '').trim();
+      }
+    });
+    return {
+      // Structured remittance puts the text in a USTD keyword after REMI
+      description: keywords['REMI'] || keywords['USTD'] || '',
+      recipient: keywords['NAME'] || '',
+      iban: keywords['IBAN'] || ''
+    };
+  }
+
+  return {description: text.trim(), recipient: '', iban: ''};
+}
+
+// MT940 amounts always use a decimal comma and no thousands separator
+function parseAmount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
@@ -0,0 +1,71 @@
+import {describe, expect, it} from 'vitest';
+
+import {isOfx, parseOfx} from './ofx';
+
+const header = 'OFXHEADER:100\nDATA:OFXSGML\n\n<OFX>\n<CURDEF>USD\n';
+
+function entry(date: string, amount: string, name = 'Shop'): string {
+  return `<STMTTRN>\n<DTPOSTED>${date}\n<TRNAMT>${amount}\n<NAME>${
+      name}\n<MEMO>Memo ${name}\n</STMTTRN>\n`;
+}
+
+describe('isOfx', () => {
+  it('recognizes OFX 1.x and 2.x', () => {
+    expect(isOfx(header)).toBe(true);
+    expect(isOfx('<?xml version="1.0"?>\n<?OFX OFXHEADER="200"?>'))
+        .toBe(true);
+    expect(isOfx('Datum;Opis;Znesek')).toBe(false);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads income and expenses in the default currency', () => {
+    const {transactions, issues} = parseOfx(
+        header + entry('20250304120000[-5:EST]', '-12.50') +
+        entry('20250305', '100', 'Employer'));
+    expect(issues).toEqual([]);
+    expect(transactions).toEqual([
+      {
+        date: new Date(2025, 2, 4),
+        amount: 12.5,
+        description: 'Memo Shop',
+        recipient: 'Shop',
+        type: 'expense',
+        currency: 'USD'
+      },
+      {
+        date: new Date(2025, 2, 5),
+        amount: 100,
+        description: 'Memo Employer',
+        recipient: 'Employer',
+        type: 'income',
+        currency: 'USD'
+      }
+    ]);
+  });
+
+  it('reads grouped amounts and decimal commas', () => {
+    const {transactions} = parseOfx(
+        header + entry('20250304', '-1,000.00') + entry('20250304', '12,5'));
+    expect(transactions.map(t => t.amount)).toEqual([1000, 12.5]);
+  });
+
+  it('reports entries it cannot read instead of guessing', () => {
+    const {transactions, issues} = parseOfx(
+        header + entry('20250304', '12.50abc') + entry('nodate', '1'));
+    expect(transactions).toEqual([]);
+    expect(issues!.map(i => [i.rowNumber, i.reason])).toEqual([
+      [6, 'Could not read amount "12.50abc"'],
+      [12, 'Invalid date "nodate"']
+    ]);
+  });
+
+  it('uses the currency of a <CURRENCY> aggregate', () => {
+    const {transactions} = parseOfx(
+        header +
+        '<STMTTRN>\n<DTPOSTED>20250304\n<TRNAMT>-5\n<NAME>A &amp; B\n' +
+        '<CURRENCY>\n<CURRATE>1.1\n<CURSYM>EUR\n</CURRENCY>\n</STMTTRN>\n');
+    expect(transactions[0].currency).toBe('EUR');
+    expect(transactions[0].recipient).toBe('A & B');
+  });
+});
@@ -0,0 +1,96 @@
+import {parseAmount} from './amount';
+import {normalizeCurrency} from './currency';
+import {ParsedStatement, RowIssue, Transaction} from './types';
+
+// OFX 1.x starts with an "OFXHEADER:" block and uses SGML, OFX 2.x is XML
+export function isOfx(text: string): boolean {
+  const start = text.trimStart().slice(0, 1000).toUpperCase();
+  return start.startsWith('OFXHEADER:') || start.includes('<?OFX') ||
+      start.includes('<OFX>');
+}
+
+// Entries without a readable date or amount are reported by the line their
+// <STMTTRN> starts on
+export function parseOfx(text: string): ParsedStatement {
+  const transactions: Transaction[] = [];
+  const issues: RowIssue[] = [];
+  const defaultCurrency = getField(text, 'CURDEF');
+  const blockPattern = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+
+  let match: RegExpExecArray|null;
+  while ((match = blockPattern.exec(text)) !== null) {
+    const block = match[1];
+    const report = (reason: string) => issues.push({
+      rowNumber: text.slice(0, match!.index).split('\n').length,
+      reason,
+      content: block.trim().replace(/\s*\n\s*/g, ' ')
+    });
+
+    const postedAt = getField(block, 'DTPOSTED');
+    const date = parseOfxDate(postedAt);
+    if (!date) {
+      report(`Invalid date "${postedAt}"`);
+      continue;
+    }
+    const trnAmount = getField(block, 'TRNAMT');
+    const amount = parseOfxAmount(trnAmount);
+    if (amount === null) {
+      report(`Could not read amount "${trnAmount}"`);
+      continue;
+    }
+    if (amount === 0) continue;
+
+    const name = getField(block, 'NAME') || getField(block, 'PAYEEID');
+    const memo = getField(block, 'MEMO');
+    // A <CURRENCY> aggregate means the amount isn't in the default currency
+    const currencyBlock = /<CURRENCY>([\s\S]*?)<\/CURRENCY>/i.exec(block);
+    const currency = currencyBlock ? getField(currencyBlock[1], 'CURSYM') :
+                                     defaultCurrency;
+
+    transactions.push({
+      date,
+      amount: Math.abs(amount),
+      description: memo || name || 'Unknown',
+      recipient: name || 'Unknown',
+      type: amount > 0 ? 'income' : 'expense',
+      currency: currency ? normalizeCurrency(currency) : undefined
+    });
+  }
+
+  return {accounts: [], transactions, issues};
+}
+
+// A point or, in some locales, a comma marks the decimals. Grouped amounts
+// like "1,000.00" turn up too, so when both appear the last one does.
+function parseOfxAmount(value: string): number|null {
+  if (!/^[+-]?[\d.,]*\d[\d.,]*$/.test(value)) return null;
+  const decimalSeparator =
+      value.lastIndexOf(',') > value.lastIndexOf('.') ? ',' : '.';
+  const isGrouped = value.includes(',') && value.includes('.');
+  return parseAmount(value, {
+    decimalSeparator,
+    thousandsSeparator: isGrouped ? (decimalSeparator === ',' ? '.' : ',') : ''
+  });
+}
+
+// SGML leaves elements unclosed, so a value runs until the next tag or line
+function getField(block: string, tag: string): string {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? decodeEntities(match[1].trim()) : '';
+}
+
+// YYYYMMDD, optionally followed by a time and a [offset:TZ] suffix
+function parseOfxDate(value: string): Date|null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) return null;
+  return new Date(
+      parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]));
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, '\'')
+      .replace(/&amp;/g, '&');
+}
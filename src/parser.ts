@@ -0,0 +1,112 @@
+import {TextEncoding} from './encoding';
+import {ParsedTransactions, ProgressCallback, RawWorkbook} from './sheet';
+import {BankConfig, ParsedData, ParsedStatement} from './types';
+
+// A file is either a structured statement or a spreadsheet. Statements come
+// back parsed, or as text for the page to parse if their format needs it.
+// Spreadsheets come back as previews; the worker keeps the whole workbook
+// for `parse`.
+export type ReadResult = {
+  kind: 'statement',
+  formatKey: string,
+  encoding: TextEncoding,
+  statement: ParsedStatement|null,
+  text: string
+}|{kind: 'workbook', workbook: RawWorkbook};
+
+export type ParserRequest =
+    {
+      type: 'read',
+      bytes: Uint8Array,
+      encoding: TextEncoding | null,
+      formatKey: string | null  // Reads the file as this statement format
+    }|
+    {type: 'parse', config: BankConfig};
+
+// The transactions on the first sheet of the workbook read last
+export interface WorkbookImport extends ParsedTransactions {
+  sheets: ParsedData[];  // Previews of every sheet
+  encoding: TextEncoding;
+}
+
+export type ParserResponse =
+    {type: 'progress', stage: string, fraction: number | null}|
+    {type: 'result', result: any}|{type: 'error', message: string};
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress: ProgressCallback;
+}
+
+// Runs file reading and row parsing in a Web Worker, one request at a time.
+// Cancelling stops the worker; the next request starts a fresh one, so a
+// file must be read again before it can be parsed.
+export class BackgroundParser {
+  private worker: Worker|null = null;
+  private pending: PendingRequest|null = null;
+
+  read(bytes: Uint8Array, encoding: TextEncoding|null, formatKey: string|null,
+       onProgress: ProgressCallback): Promise<ReadResult> {
+    // The bytes move to the worker instead of being copied
+    return this.request(
+        {type: 'read', bytes, encoding, formatKey}, onProgress, [bytes.buffer]);
+  }
+
+  parse(config: BankConfig, onProgress: ProgressCallback):
+      Promise<WorkbookImport> {
+    return this.request({type: 'parse', config}, onProgress);
+  }
+
+  // Stops the request in progress, if any
+  cancel(): void {
+    if (!this.pending) return;
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.settle()?.reject(new Error('Import cancelled'));
+  }
+
+  private request<T>(
+      message: ParserRequest, onProgress: ProgressCallback,
+      transfer: Transferable[] = []): Promise<T> {
+    if (this.pending) {
+      return Promise.reject(new Error('Another file is still being read'));
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = {resolve, reject, onProgress};
+      this.getWorker().postMessage(message, transfer);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./parser.worker.ts', import.meta.url));
+      this.worker.onmessage = (event: MessageEvent<ParserResponse>) =>
+          this.handleResponse(event.data);
+      this.worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        this.settle()?.reject(new Error(event.message || 'Parser failed'));
+      };
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: ParserResponse): void {
+    if (response.type === 'progress') {
+      this.pending?.onProgress(response.stage, response.fraction);
+    } else if (response.type === 'result') {
+      this.settle()?.resolve(response.result);
+    } else {
+      this.settle()?.reject(new Error(response.message));
+    }
+  }
+
+  // Clears the pending request so that another one can start
+  private settle(): PendingRequest|null {
+    const pending = this.pending;
+    this.pending = null;
+    return pending;
+  }
+}
@@ -0,0 +1,84 @@
+import {decodeText, detectEncoding, isBinaryWorkbook,
+        TextEncoding} from './encoding';
+import {statementFormats} from './formats';
+import {ParserRequest, ParserResponse, ReadResult,
+        WorkbookImport} from './parser';
+import {buildSheet, parseBankTransactions, previewRawSheet, previewSheet,
+        ProgressCallback, RawWorkbook, readWorkbook} from './sheet';
+import {BankConfig} from './types';
+
+// Reads and parses statement files off the main thread, so that multi-year
+// exports don't freeze the page
+const worker = self as unknown as Worker;
+
+// The spreadsheet read last, kept here so that only previews and parsed
+// transactions go back to the page
+let lastRead: {bytes: Uint8Array, workbook: RawWorkbook}|null = null;
+
+worker.onmessage = (event: MessageEvent<ParserRequest>) => {
+  const request = event.data;
+  const post = (response: ParserResponse) => worker.postMessage(response);
+  const onProgress: ProgressCallback = (stage, fraction) =>
+      post({type: 'progress', stage, fraction});
+
+  try {
+    const result = request.type === 'read' ?
+        read(request.bytes, request.encoding, request.formatKey, onProgress) :
+        parse(request.config, onProgress);
+    post({type: 'result', result});
+  } catch (error) {
+    post({type: 'error', message: (error as Error).message});
+  }
+};
+
+// A statement format picked by the user skips detection
+function read(
+    bytes: Uint8Array, encoding: TextEncoding|null, formatOverride: string|null,
+    onProgress: ProgressCallback): ReadResult {
+  lastRead = null;
+  if (formatOverride || !isBinaryWorkbook(bytes)) {
+    const textEncoding = encoding || detectEncoding(bytes).encoding;
+    const text = decodeText(bytes, textEncoding);
+    const formatKey = formatOverride ||
+        Object.keys(statementFormats)
+            .find(key => statementFormats[key].detect(text));
+    if (formatKey) {
+      onProgress('Parsing statement', null);
+      const format = statementFormats[formatKey];
+      const statement = format.parseOnPage ? null : format.parse(text);
+      return {
+        kind: 'statement',
+        formatKey,
+        encoding: textEncoding,
+        statement,
+        text: statement ? '' : text
+      };
+    }
+  }
+
+  const workbook = readWorkbook(bytes, encoding, onProgress);
+  lastRead = {bytes, workbook};
+  return {
+    kind: 'workbook',
+    workbook: {...workbook, sheets: workbook.sheets.map(previewRawSheet)}
+  };
+}
+
+function parse(config: BankConfig, onProgress: ProgressCallback):
+    WorkbookImport {
+  if (!lastRead) throw new Error('No spreadsheet has been read');
+  let workbook = lastRead.workbook;
+
+  // The bytes alone couldn't settle the encoding, so trust the bank's
+  if (!workbook.encoding.confident && config.encoding &&
+      config.encoding !== workbook.encoding.encoding) {
+    workbook = readWorkbook(lastRead.bytes, config.encoding, onProgress);
+  }
+
+  const sheets = workbook.sheets.map(sheet => buildSheet(sheet, config));
+  return {
+    ...parseBankTransactions(sheets[0], config, onProgress),
+    sheets: sheets.map(previewSheet),
+    encoding: workbook.encoding.encoding
+  };
+}
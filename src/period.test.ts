@@ -0,0 +1,71 @@
+import {describe, expect, it} from 'vitest';
+
+import {getCustomPeriod, getPeriods, isInPeriod} from './period';
+
+const dates = [
+  new Date(2024, 11, 20), new Date(2025, 0, 5), new Date(2025, 0, 25),
+  new Date(2025, 2, 4)
+];
+
+describe('getPeriods', () => {
+  it('lists the months with dates, newest first', () => {
+    expect(getPeriods('month', dates, 1).map(p => p.label))
+        .toEqual(['March 2025', 'January 2025', 'December 2024']);
+  });
+
+  it('lists quarters and years', () => {
+    expect(getPeriods('quarter', dates, 1).map(p => p.label))
+        .toEqual(['Q1 2025', 'Q4 2024']);
+    const [year] = getPeriods('year', dates, 1);
+    expect(year).toEqual({
+      start: new Date(2025, 0, 1),
+      end: new Date(2026, 0, 1),
+      label: '2025'
+    });
+  });
+
+  it('runs year to date up to the latest date', () => {
+    expect(getPeriods('yearToDate', dates, 1)).toEqual([{
+      start: new Date(2025, 0, 1),
+      end: new Date(2025, 2, 5),
+      label: '2025 to date'
+    }]);
+  });
+
+  it('runs cycles from the start day to the day before it', () => {
+    const periods = getPeriods('cycle', dates, 10);
+    expect(periods.map(p => [p.start, p.end])).toEqual([
+      [new Date(2025, 1, 10), new Date(2025, 2, 10)],
+      [new Date(2025, 0, 10), new Date(2025, 1, 10)],
+      [new Date(2024, 11, 10), new Date(2025, 0, 10)]
+    ]);
+    expect(periods[2].label).toBe('Dec 10, 2024 – Jan 9, 2025');
+  });
+
+  it('starts cycles on the last day of short months', () => {
+    const [cycle] = getPeriods('cycle', [new Date(2025, 1, 28)], 31);
+    expect(cycle.start).toEqual(new Date(2025, 1, 28));
+    expect(cycle.end).toEqual(new Date(2025, 2, 31));
+  });
+
+  it('handles a history too long to spread', () => {
+    const many = Array.from(
+        {length: 200000}, (_, i) => new Date(2000, 0, 1 + i % 9000));
+    expect(getPeriods('yearToDate', many, 1)[0].end)
+        .toEqual(new Date(2000, 0, 9001));
+  });
+
+  it('has no periods without dates', () => {
+    expect(getPeriods('month', [], 1)).toEqual([]);
+  });
+});
+
+describe('getCustomPeriod', () => {
+  it('includes the whole last day', () => {
+    const period =
+        getCustomPeriod(new Date(2025, 0, 5, 15), new Date(2025, 0, 10));
+    expect(isInPeriod(new Date(2025, 0, 5), period)).toBe(true);
+    expect(isInPeriod(new Date(2025, 0, 10, 23, 59), period)).toBe(true);
+    expect(isInPeriod(new Date(2025, 0, 11), period)).toBe(false);
+  });
+});
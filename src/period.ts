@@ -0,0 +1,109 @@
+export type PeriodKind = 'month'|'quarter'|'yearToDate'|'year'|'cycle';
+
+// A span of whole days, from the start of `start` to just before `end`
+export interface Period {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+// The periods of one kind that hold any of the dates, newest first. A
+// cycle runs from `cycleStartDay` of one month to the day before it in the
+// next, e.g. from payday to payday; in short months it starts on the last
+// day. Year to date runs from 1 January to the latest date.
+export function getPeriods(
+    kind: PeriodKind, dates: Date[], cycleStartDay: number): Period[] {
+  if (dates.length === 0) return [];
+  if (kind === 'yearToDate') {
+    const latest = dates.reduce(
+        (a, b) => b.getTime() > a.getTime() ? b : a, dates[0]);
+    const start = new Date(latest.getFullYear(), 0, 1);
+    const end = addDays(latest, 1);
+    return [{start, end, label: `${latest.getFullYear()} to date`}];
+  }
+
+  const periods = new Map<number, Period>();
+  dates.forEach(date => {
+    const start = getPeriodStart(kind, date, cycleStartDay);
+    if (!periods.has(start.getTime())) {
+      periods.set(start.getTime(), createPeriod(kind, start, cycleStartDay));
+    }
+  });
+  return Array.from(periods.values())
+      .sort((a, b) => b.start.getTime() - a.start.getTime());
+}
+
+// From the start of `from` to the end of `to`
+export function getCustomPeriod(from: Date, to: Date): Period {
+  return {
+    start: startOfDay(from),
+    end: addDays(to, 1),
+    label: `${from.toLocaleDateString()} – ${to.toLocaleDateString()}`
+  };
+}
+
+export function isInPeriod(date: Date, period: Period): boolean {
+  return date.getTime() >= period.start.getTime() &&
+      date.getTime() < period.end.getTime();
+}
+
+function getPeriodStart(
+    kind: Exclude<PeriodKind, 'yearToDate'>, date: Date,
+    cycleStartDay: number): Date {
+  const year = date.getFullYear();
+  const month = date.getMonth();
+  if (kind === 'quarter') return new Date(year, month - month % 3, 1);
+  if (kind === 'year') return new Date(year, 0, 1);
+  if (kind === 'cycle') {
+    const start = getCycleStart(year, month, cycleStartDay);
+    return date.getTime() >= start.getTime() ?
+        start :
+        getCycleStart(year, month - 1, cycleStartDay);
+  }
+  return new Date(year, month, 1);
+}
+
+function createPeriod(
+    kind: Exclude<PeriodKind, 'yearToDate'>, start: Date,
+    cycleStartDay: number): Period {
+  const year = start.getFullYear();
+  const month = start.getMonth();
+  if (kind === 'quarter') {
+    return {
+      start,
+      end: new Date(year, month + 3, 1),
+      label: `Q${month / 3 + 1} ${year}`
+    };
+  }
+  if (kind === 'year') {
+    return {start, end: new Date(year + 1, 0, 1), label: String(year)};
+  }
+  if (kind === 'cycle') {
+    const end = getCycleStart(year, month + 1, cycleStartDay);
+    const last = addDays(end, -1);
+    const day = {day: 'numeric', month: 'short'} as const;
+    const withYear = {...day, year: 'numeric'} as const;
+    const from = start.toLocaleDateString(
+        'en-US', year === last.getFullYear() ? day : withYear);
+    const to = last.toLocaleDateString('en-US', withYear);
+    return {start, end, label: `${from} – ${to}`};
+  }
+  return {
+    start,
+    end: new Date(year, month + 1, 1),
+    label: start.toLocaleDateString('en-US', {month: 'long', year: 'numeric'})
+  };
+}
+
+function getCycleStart(year: number, month: number, day: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay));
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
@@ -0,0 +1,168 @@
+import {dayMs, getMedian} from './date';
+import {Transaction} from './types';
+
+export type Cadence = 'weekly'|'monthly'|'yearly';
+
+export interface PriceChange {
+  date: Date;
+  from: number;
+  to: number;
+}
+
+// Payments to one merchant, in one currency, that repeat on a schedule
+export interface Subscription {
+  merchant: string;
+  currency: string;
+  cadence: Cadence;
+  charges: Transaction[];  // Oldest first
+  amount: number;  // The latest charge
+  annualCost: number;
+  nextDate: Date;
+  // No charge came within the expected time after the last one
+  stopped: boolean;
+  priceChanges: PriceChange[];
+  // Extra charges in a period that was already paid
+  doubleCharges: Transaction[];
+}
+
+interface CadenceRule {
+  cadence: Cadence;
+  minDays: number;  // Typical gap between two charges
+  maxDays: number;
+  graceDays: number;  // How late a charge may come before it counts as missed
+  perYear: number;
+  minCharges: number;
+}
+
+const cadenceRules: CadenceRule[] = [
+  {
+    cadence: 'weekly',
+    minDays: 5,
+    maxDays: 9,
+    graceDays: 3,
+    perYear: 52,
+    minCharges: 4
+  },
+  {
+    cadence: 'monthly',
+    minDays: 26,
+    maxDays: 35,
+    graceDays: 7,
+    perYear: 12,
+    minCharges: 3
+  },
+  {
+    cadence: 'yearly',
+    minDays: 350,
+    maxDays: 380,
+    graceDays: 30,
+    perYear: 1,
+    minCharges: 2
+  }
+];
+
+// Share of gaps and amounts that must fit the schedule
+const regularShare = 0.75;
+// Amounts within this fraction of the usual amount count as the same
+const amountTolerance = 0.2;
+
+// Looks through the whole history for expenses to the same merchant that
+// come weekly, monthly or yearly with similar amounts. `asOf` is the date
+// the history ends, which decides whether a subscription stopped.
+export function detectSubscriptions(
+    transactions: Transaction[], getMerchant: (t: Transaction) => string,
+    asOf: Date): Subscription[] {
+  const groups = new Map<string, Transaction[]>();
+  transactions.filter(t => t.type === 'expense').forEach(t => {
+    const merchant = getMerchant(t);
+    if (merchant === '') return;
+    const key = `${merchant}|${t.currency || ''}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(t);
+  });
+
+  const subscriptions: Subscription[] = [];
+  groups.forEach((charges, key) => {
+    const [merchant, currency] = key.split('|');
+    const sorted =
+        [...charges].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const subscription = detectSchedule(merchant, currency, sorted, asOf);
+    if (subscription) subscriptions.push(subscription);
+  });
+  return subscriptions;
+}
+
+function detectSchedule(
+    merchant: string, currency: string, charges: Transaction[],
+    asOf: Date): Subscription|null {
+  if (charges.length < 2) return null;
+
+  const gaps = charges.slice(1).map(
+      (t, i) => (t.date.getTime() - charges[i].date.getTime()) / dayMs);
+  const rule = cadenceRules.find(r => {
+    const median = getMedian(gaps.filter(gap => gap >= r.minDays / 2));
+    return median >= r.minDays && median <= r.maxDays;
+  });
+  if (!rule) return null;
+
+  // Charges that come much sooner than the schedule are repeats within a
+  // period, not the next payment
+  const doubleCharges: Transaction[] = [];
+  const regular: Transaction[] = [charges[0]];
+  charges.slice(1).forEach(t => {
+    const previous = regular[regular.length - 1];
+    const gap = (t.date.getTime() - previous.date.getTime()) / dayMs;
+    if (gap < rule.minDays / 2) {
+      doubleCharges.push(t);
+    } else {
+      regular.push(t);
+    }
+  });
+  if (regular.length < rule.minCharges) return null;
+
+  const regularGaps = regular.slice(1).map(
+      (t, i) => (t.date.getTime() - regular[i].date.getTime()) / dayMs);
+  const onSchedule = regularGaps.filter(
+      gap => gap >= rule.minDays && gap <= rule.maxDays + rule.graceDays);
+  if (onSchedule.length < regularGaps.length * regularShare) return null;
+
+  const usualAmount = getMedian(regular.map(t => t.amount));
+  const similar = regular.filter(
+      t => Math.abs(t.amount - usualAmount) <= usualAmount * amountTolerance);
+  if (similar.length < regular.length * regularShare) return null;
+
+  const priceChanges: PriceChange[] = [];
+  regular.slice(1).forEach((t, i) => {
+    const from = regular[i].amount;
+    if (Math.abs(t.amount - from) >= 0.005) {
+      priceChanges.push({date: t.date, from, to: t.amount});
+    }
+  });
+
+  const last = regular[regular.length - 1];
+  const nextDate = getNextDate(last.date, rule.cadence);
+  return {
+    merchant,
+    currency,
+    cadence: rule.cadence,
+    charges,
+    amount: last.amount,
+    annualCost: last.amount * rule.perYear,
+    nextDate,
+    stopped: asOf.getTime() > nextDate.getTime() + rule.graceDays * dayMs,
+    priceChanges,
+    doubleCharges
+  };
+}
+
+// A month after 31 January is the last day of February
+export function getNextDate(date: Date, cadence: Cadence): Date {
+  if (cadence === 'weekly') {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 7);
+  }
+  const months = cadence === 'monthly' ? 1 : 12;
+  const year = date.getFullYear();
+  const month = date.getMonth() + months;
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(date.getDate(), lastDay));
+}
@@ -0,0 +1,67 @@
+import {describe, expect, it} from 'vitest';
+
+import {getRefundTotals, linkRefunds, ManualRefundLinks} from './refunds';
+import {Transaction} from './types';
+
+let nextId = 0;
+
+function transaction(
+    type: Transaction['type'], month: number, day: number, amount: number,
+    recipient = 'Shop'): Transaction {
+  return {
+    date: new Date(2025, month, day),
+    amount,
+    description: `#${nextId++}`,
+    recipient,
+    type,
+    currency: 'EUR'
+  };
+}
+
+const noManualLinks: ManualRefundLinks = {links: {}, unlinked: []};
+const link = (transactions: Transaction[], manual = noManualLinks) =>
+    linkRefunds(
+        transactions, t => t.recipient === 'Shop' || t.recipient === 'Other',
+        t => t.recipient, t => t.description, manual);
+
+describe('linkRefunds', () => {
+  it('prefers the latest earlier purchase with the exact amount', () => {
+    const exact = transaction('expense', 0, 5, 20);
+    const later = transaction('expense', 0, 10, 50);
+    const refund = transaction('income', 0, 15, 20);
+    expect(link([exact, later, refund]).get(refund)).toBe(exact);
+  });
+
+  it('falls back to the latest purchase with enough left', () => {
+    const older = transaction('expense', 0, 5, 50);
+    const newer = transaction('expense', 0, 10, 50);
+    const first = transaction('income', 0, 15, 30);
+    const second = transaction('income', 0, 16, 30);
+    const links = link([older, newer, first, second]);
+    expect(links.get(first)).toBe(newer);
+    expect(links.get(second)).toBe(older);
+    expect(getRefundTotals(links))
+        .toEqual(new Map([[newer, 30], [older, 30]]));
+  });
+
+  it('ignores purchases from other merchants, later or too long ago', () => {
+    const otherMerchant = transaction('expense', 0, 5, 20, 'Other');
+    const tooOld = transaction('expense', -7, 1, 20);
+    const after = transaction('expense', 2, 10, 20);
+    const refund = transaction('income', 2, 1, 20);
+    expect(link([otherMerchant, tooOld, after, refund]).has(refund))
+        .toBe(false);
+  });
+
+  it('follows manual links and leaves unlinked refunds alone', () => {
+    const purchase = transaction('expense', 0, 5, 20);
+    const manual = transaction('expense', 0, 6, 80);
+    const linked = transaction('income', 0, 10, 20);
+    const unlinked = transaction('income', 0, 11, 20);
+    const links = link([purchase, manual, linked, unlinked], {
+      links: {[linked.description]: manual.description},
+      unlinked: [unlinked.description]
+    });
+    expect(links).toEqual(new Map([[linked, manual]]));
+  });
+});
@@ -0,0 +1,87 @@
+import {dayMs} from './date';
+import {Transaction} from './types';
+
+// How long after a purchase its refund is looked for
+export const refundWindowDays = 180;
+
+// Links the user made or removed by hand, by transaction key
+export interface ManualRefundLinks {
+  links: {[refundKey: string]: string};  // Refund to purchase
+  unlinked: string[];  // Refunds that are never matched automatically
+}
+
+// Links refunds to the purchases they reverse. Manual links come first;
+// every other refund goes to the latest earlier expense from the same
+// merchant, in the same currency, that still has at least the refunded
+// amount left. A purchase with exactly the refunded amount is preferred.
+export function linkRefunds(
+    transactions: Transaction[], isRefund: (t: Transaction) => boolean,
+    getMerchant: (t: Transaction) => string, getKey: (t: Transaction) => string,
+    manual: ManualRefundLinks): Map<Transaction, Transaction> {
+  const links = new Map<Transaction, Transaction>();
+  const refunded = new Map<Transaction, number>();
+  const link = (refund: Transaction, purchase: Transaction) => {
+    links.set(refund, purchase);
+    refunded.set(purchase, (refunded.get(purchase) || 0) + refund.amount);
+  };
+
+  const byKey = new Map<string, Transaction>();
+  transactions.forEach(t => {
+    const key = getKey(t);
+    if (!byKey.has(key)) byKey.set(key, t);
+  });
+  const incomes = transactions.filter(t => t.type === 'income');
+  incomes.forEach(t => {
+    const purchaseKey = manual.links[getKey(t)];
+    const purchase = purchaseKey ? byKey.get(purchaseKey) : undefined;
+    if (purchase) link(t, purchase);
+  });
+
+  const getGroup = (t: Transaction) => `${getMerchant(t)}|${t.currency || ''}`;
+  const purchases = new Map<string, Transaction[]>();
+  transactions.filter(t => t.type === 'expense').forEach(t => {
+    const group = getGroup(t);
+    if (!purchases.has(group)) purchases.set(group, []);
+    purchases.get(group)!.push(t);
+  });
+  purchases.forEach(
+      group => group.sort((a, b) => a.date.getTime() - b.date.getTime()));
+
+  const unlinked = new Set(manual.unlinked);
+  incomes
+      .filter(t => !links.has(t) && !unlinked.has(getKey(t)) && isRefund(t))
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .forEach(refund => {
+        const isCandidate = (p: Transaction) => {
+          const daysBefore = (refund.date.getTime() - p.date.getTime()) / dayMs;
+          return daysBefore >= 0 && daysBefore <= refundWindowDays &&
+              p.amount - (refunded.get(p) || 0) >= refund.amount - 0.005;
+        };
+        const candidates =
+            (purchases.get(getGroup(refund)) || []).filter(isCandidate);
+        const exact = candidates.filter(
+            p => Math.abs(p.amount - refund.amount) < 0.005);
+        const pool = exact.length > 0 ? exact : candidates;
+        if (pool.length > 0) link(refund, pool[pool.length - 1]);
+      });
+
+  return links;
+}
+
+// How much of each purchase was refunded
+export function getRefundTotals(links: Map<Transaction, Transaction>):
+    Map<Transaction, number> {
+  const totals = new Map<Transaction, number>();
+  links.forEach((purchase, refund) => {
+    totals.set(purchase, (totals.get(purchase) || 0) + refund.amount);
+  });
+  return totals;
+}
+
+export function isManualRefundLinks(value: any): value is ManualRefundLinks {
+  return !!value && typeof value === 'object' && !!value.links &&
+      typeof value.links === 'object' &&
+      Object.values(value.links).every(key => typeof key === 'string') &&
+      Array.isArray(value.unlinked) &&
+      value.unlinked.every((key: any) => typeof key === 'string');
+}
@@ -0,0 +1,120 @@
+import {Transaction} from './types';
+
+export type RuleField = 'any'|'description'|'recipient';
+export type RuleMatch = 'contains'|'equals'|'regex';
+
+// Assigns a category to transactions that meet every condition that is set.
+// Rules are tried in order and the first match wins.
+export interface CategoryRule {
+  category: string;
+  field: RuleField;
+  match: RuleMatch;
+  pattern: string;  // Empty matches any text
+  type?: 'income'|'expense';
+  minAmount?: number;
+  maxAmount?: number;
+  bank?: string;  // Bank or statement format name
+}
+
+// Separates a parent category from its children, as in "Food > Groceries"
+export const categorySeparator = '>';
+
+export function splitCategory(category: string): string[] {
+  return category.split(categorySeparator)
+      .map(part => part.trim())
+      .filter(part => part !== '');
+}
+
+export function joinCategory(parts: string[]): string {
+  return parts.join(` ${categorySeparator} `);
+}
+
+export const fallbackCategories = {
+  expense: 'Other Expenses',
+  income: 'Other Income'
+};
+
+// The keyword lists the app started with
+const defaultKeywords: [Transaction['type'], RuleField, string, string[]][] = [
+  ['expense', 'description', 'Digital Payments', ['REVOLUT', 'PAYPAL']],
+  [
+    'expense', 'description', 'Food > Groceries',
+    ['MARKET', 'TRGOVINA', 'SPAR', 'MERCATOR']
+  ],
+  [
+    'expense', 'description', 'Food > Restaurants',
+    ['RESTAVRACIJA', 'GOSTINSTVO', 'FOOD']
+  ],
+  ['expense', 'description', 'Gas', ['BENCIN', 'PETROL', 'OMV']],
+  ['expense', 'description', 'Telecom', ['TELEKOM', 'A1', 'TELEMACH']],
+  ['expense', 'recipient', 'Education', ['UNIVERZA']],
+  ['expense', 'description', 'Insurance', ['ZAVAROVANJE']],
+  ['expense', 'description', 'Rent', ['NAJEMNINA', 'RENT']],
+  ['income', 'description', 'Salary', ['PLAČA', 'SALARY', 'MEZDA']],
+  ['income', 'description', 'Dividends', ['DIVIDENDA', 'DIVIDEND']],
+  ['income', 'description', 'Interest', ['OBRESTI', 'INTEREST']],
+  ['income', 'description', 'Transfer', ['NAKAZILO', 'TRANSFER']],
+  ['income', 'description', 'Refund', ['REFUND', 'POVRAČILO']],
+  ['income', 'description', 'Freelance', ['FREELANCE', 'HONORAR']],
+  ['income', 'description', 'Gift', ['GIFT', 'DARILO']]
+];
+
+export function getDefaultRules(): CategoryRule[] {
+  return defaultKeywords.flatMap(
+      ([type, field, category, keywords]) => keywords.map(
+          pattern => ({category, field, match: 'contains', pattern, type})));
+}
+
+// Invalid patterns are cached as null and never match
+const regexCache = new Map<string, RegExp|null>();
+
+export function getRuleRegex(pattern: string): RegExp|null {
+  if (!regexCache.has(pattern)) {
+    try {
+      regexCache.set(pattern, new RegExp(pattern, 'i'));
+    } catch {
+      regexCache.set(pattern, null);
+    }
+  }
+  return regexCache.get(pattern) || null;
+}
+
+export function matchesRule(rule: CategoryRule, t: Transaction): boolean {
+  if (rule.type && rule.type !== t.type) return false;
+  if (rule.bank && rule.bank !== t.bank) return false;
+  if (rule.minAmount !== undefined && t.amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && t.amount > rule.maxAmount) return false;
+  if (rule.pattern === '') return true;
+
+  const texts = rule.field === 'description' ? [t.description] :
+      rule.field === 'recipient'             ? [t.recipient] :
+                                               [t.description, t.recipient];
+  return texts.some(text => matchesPattern(rule.match, rule.pattern, text));
+}
+
+// Text comparisons ignore case
+export function matchesPattern(
+    match: RuleMatch, pattern: string, text: string): boolean {
+  const upperText = text.toUpperCase();
+  const upperPattern = pattern.toUpperCase();
+  if (match === 'equals') return upperText.trim() === upperPattern.trim();
+  if (match === 'regex') return !!getRuleRegex(pattern)?.test(text);
+  return upperText.includes(upperPattern);
+}
+
+export function categorize(t: Transaction, rules: CategoryRule[]): string {
+  const rule = rules.find(r => matchesRule(r, t));
+  return rule ? rule.category : fallbackCategories[t.type];
+}
+
+export function isCategoryRule(value: any): value is CategoryRule {
+  if (!value || typeof value !== 'object') return false;
+  const isOptionalNumber = (n: any) => n === undefined || typeof n === 'number';
+  return typeof value.category === 'string' && value.category !== '' &&
+      ['any', 'description', 'recipient'].includes(value.field) &&
+      ['contains', 'equals', 'regex'].includes(value.match) &&
+      typeof value.pattern === 'string' &&
+      [undefined, 'income', 'expense'].includes(value.type) &&
+      isOptionalNumber(value.minAmount) && isOptionalNumber(value.maxAmount) &&
+      (value.bank === undefined || typeof value.bank === 'string');
+}
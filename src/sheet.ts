@@ -0,0 +1,374 @@
+import * as XLSX from 'xlsx';
+
+import {parseAmount} from './amount';
+import {normalizeCurrency} from './currency';
+import {parseDate, resolveDateFormat} from './date';
+import {decodeText, detectEncoding, EncodingGuess, getCodepage,
+        isBinaryWorkbook, TextEncoding} from './encoding';
+import {BalanceRow, BankConfig, ParsedData, RowIssue, Transaction} from './types';
+
+// Spreadsheet reading and row parsing. These run in the parser worker, so
+// they must not touch the DOM.
+
+export interface RawSheet {
+  sheetName: string;
+  data: any[][];
+  rowCount?: number;  // Of the whole sheet, when `data` is only a preview
+}
+
+export interface RawWorkbook {
+  sheets: RawSheet[];
+  encoding: EncodingGuess;
+}
+
+export interface ParsedTransactions {
+  transactions: Transaction[];
+  issues: RowIssue[];
+  balanceRows: BalanceRow[];
+}
+
+// fraction is null while the length of a step isn't known
+export type ProgressCallback = (stage: string, fraction: number|null) => void;
+
+// Rows between progress updates
+const progressInterval = 2000;
+
+// How far down the sheet to look for the header row
+export const maxHeaderRowScan = 50;
+
+// Rows of a sheet that the worker sends to the page: enough to find the
+// header row and to preview the sheet without rendering all of it
+export const previewRowCount = 200;
+
+// Labels of the total/summary lines at the end of a statement
+const summaryLabelPattern =
+    /^\s*(skupaj|skupno|total[ei]?|totals|ukupno|saldo|stanje)\s*:?\s*$/i;
+
+// Reads the file with the given encoding, or a detected one when null
+export function readWorkbook(
+    bytes: Uint8Array, encoding: TextEncoding|null,
+    onProgress: ProgressCallback = () => {}): RawWorkbook {
+  let workbook: XLSX.WorkBook;
+  let guess: EncodingGuess;
+
+  onProgress('Reading workbook', null);
+  if (isBinaryWorkbook(bytes)) {
+    // Excel files carry their own encoding; the codepage is only a fallback
+    // for old .xls files that don't declare one
+    guess = {encoding: encoding || 'windows-1250', confident: !!encoding};
+    workbook = XLSX.read(bytes, {
+      type: 'array',
+      codepage: getCodepage(guess.encoding),
+      cellNF: true  // Number formats tell date cells apart from amounts
+    });
+  } else {
+    guess = encoding ? {encoding, confident: true} : detectEncoding(bytes);
+    // Keep every value as text so amounts like "1.234" aren't guessed at
+    workbook = XLSX.read(
+        decodeText(bytes, guess.encoding), {type: 'string', raw: true});
+  }
+
+  const rawSheets: RawSheet[] = [];
+  workbook.SheetNames.forEach(sheetName => {
+    const jsonData = sheetToRows(
+        workbook.Sheets[sheetName],
+        fraction => onProgress(`Reading ${sheetName}`, fraction));
+
+    if (jsonData.length > 0) {
+      rawSheets.push({sheetName, data: jsonData});
+    }
+  });
+  return {sheets: rawSheets, encoding: guess};
+}
+
+// Reads a sheet row by row, starting from the first spreadsheet row. Numbers
+// and dates keep their values, since how they are displayed follows the
+// spreadsheet program's locale rather than the bank's.
+export function sheetToRows(
+    worksheet: XLSX.WorkSheet,
+    onProgress: (fraction: number) => void = () => {}): any[][] {
+  if (!worksheet['!ref']) return [];
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const rows: any[][] = [];
+  for (let r = 0; r <= range.e.r; r++) {
+    if (r % progressInterval === 0) onProgress(r / (range.e.r + 1));
+    const row: any[] = [];
+    for (let c = 0; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject|undefined =
+          worksheet[XLSX.utils.encode_cell({r, c})];
+      if (!cell || cell.t === 'z' || cell.t === 'e') {
+        row.push(undefined);
+      } else if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+        const {y, m, d} = XLSX.SSF.parse_date_code(cell.v);
+        row.push(new Date(y, m - 1, d));
+      } else if (cell.t === 'n') {
+        row.push(cell.v);
+      } else {
+        row.push(XLSX.utils.format_cell(cell));
+      }
+    }
+    rows.push(row);
+  }
+
+  while (rows.length > 0 && isBlankRow(rows[rows.length - 1])) {
+    rows.pop();
+  }
+  return rows;
+}
+
+export function isBlankRow(row: any[]|undefined): boolean {
+  return !row || row.every(cell => String(cell ?? '').trim() === '');
+}
+
+export function findColumnIndex(headers: string[], column: string): number {
+  const upperColumn = column.toUpperCase();
+  // Prefer an exact header so that e.g. "Datum" doesn't pick "Datum valute"
+  const exactIndex =
+      headers.findIndex(h => h && h.trim().toUpperCase() === upperColumn);
+  if (exactIndex !== -1) return exactIndex;
+
+  return headers.findIndex(h => h && h.toUpperCase().includes(upperColumn));
+}
+
+// Exports often start with account holder details and blank lines, so the
+// header row is the one that best matches the bank's column names
+export function findHeaderRow(data: any[][], config: BankConfig):
+    {headerRowIndex: number, confidence: number} {
+  let best = {headerRowIndex: 0, confidence: 0};
+
+  const lastRow = Math.min(data.length, maxHeaderRowScan);
+  for (let i = 0; i < lastRow; i++) {
+    const headers = (data[i] || []).map(h => String(h || ''));
+    const confidence = scoreHeaders(headers, config);
+    if (confidence > best.confidence) {
+      best = {headerRowIndex: i, confidence};
+    }
+  }
+
+  return best;
+}
+
+// Returns the share of the bank's columns found in the headers, or 0 when
+// the date or amount columns are missing
+export function scoreHeaders(headers: string[], config: BankConfig): number {
+  const columns = Array.from(new Set([
+    config.dateColumn, config.incomeColumn, config.expenseColumn,
+    config.descriptionColumn
+  ]));
+  const found =
+      columns.filter(column => findColumnIndex(headers, column) !== -1);
+  const hasRecipient = headers.some(
+      h => h && new RegExp(config.recipientColumn, 'i').test(h));
+
+  const hasDate = found.includes(config.dateColumn);
+  const hasAmount = found.includes(config.incomeColumn) ||
+      found.includes(config.expenseColumn);
+  if (!hasDate || !hasAmount) return 0;
+
+  const matched = found.length + (hasRecipient ? 1 : 0);
+  return matched / (columns.length + 1);
+}
+
+// The sheet's rows under its header row, without the footer
+export function buildSheet(
+    {sheetName, data}: RawSheet, config: BankConfig): ParsedData {
+  const {headerRowIndex} = findHeaderRow(data, config);
+  const headers = data[headerRowIndex].map(h => String(h || ''));
+  const rows =
+      stripFooterRows(headers, data.slice(headerRowIndex + 1), config);
+  return {sheetName, headers, rows, firstRowNumber: headerRowIndex + 2};
+}
+
+// Drops the blank lines and "Skupaj"/"Totale" style summary lines that
+// follow the last transaction
+function stripFooterRows(
+    headers: string[], rows: any[][], config: BankConfig): any[][] {
+  const dateIndex = findColumnIndex(headers, config.dateColumn);
+
+  let end = rows.length;
+  while (end > 0 && isFooterRow(rows[end - 1], dateIndex)) {
+    end--;
+  }
+
+  return rows.slice(0, end);
+}
+
+// Without a date column only blank lines are dropped; parsing then reports
+// the missing column instead of finding no rows
+function isFooterRow(row: any[], dateIndex: number): boolean {
+  if (isBlankRow(row)) return true;
+  if (dateIndex < 0) return false;
+
+  // Summary rows have no date, or a label where the date should be
+  const dateCell = String(row[dateIndex] ?? '');
+  if (!/\d/.test(dateCell)) return true;
+
+  return row.some(
+      cell => typeof cell === 'string' && summaryLabelPattern.test(cell));
+}
+
+export function previewRawSheet(sheet: RawSheet): RawSheet {
+  return {
+    sheetName: sheet.sheetName,
+    data: sheet.data.slice(0, previewRowCount),
+    rowCount: sheet.data.length
+  };
+}
+
+export function previewSheet(sheet: ParsedData): ParsedData {
+  return {
+    ...sheet,
+    rows: sheet.rows.slice(0, previewRowCount),
+    rowCount: sheet.rows.length
+  };
+}
+
+export function formatCell(value: any): string {
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value ?? '');
+}
+
+export function parseBankTransactions(
+    sheet: ParsedData, config: BankConfig,
+    onProgress: ProgressCallback = () => {}): ParsedTransactions {
+  const headers = sheet.headers;
+
+  // Find column indices based on bank configuration
+  const dateIndex = findColumnIndex(headers, config.dateColumn);
+  const incomeIndex = findColumnIndex(headers, config.incomeColumn);
+  const expenseIndex = findColumnIndex(headers, config.expenseColumn);
+  const purposeIndex =
+      findColumnIndex(headers, config.descriptionColumn);
+  const recipientIndex = headers.findIndex(h => {
+    if (!h) return false;
+    const pattern = new RegExp(config.recipientColumn, 'i');
+    return pattern.test(h);
+  });
+  const balanceIndex = config.balanceColumn ?
+      findColumnIndex(headers, config.balanceColumn) :
+      -1;
+  const currencyIndex = config.currencyColumn ?
+      findColumnIndex(headers, config.currencyColumn) :
+      -1;
+  const accountCurrency = normalizeCurrency(config.currency);
+
+  const transactions: Transaction[] = [];
+  const issues: RowIssue[] = [];
+  const balanceRows: BalanceRow[] = [];
+
+  // For Erste Bank (and custom formats like it), income and expense are the
+  // same signed amount column
+  const hasSignedAmount = config.incomeColumn === config.expenseColumn;
+  if (dateIndex === -1 || (incomeIndex === -1 && expenseIndex === -1)) {
+    issues.push({
+      rowNumber: (sheet.firstRowNumber || 2) - 1,
+      reason: `Required columns not found for ${config.name}`,
+      content: headers.join(' | ')
+    });
+    return {transactions, issues, balanceRows};
+  }
+
+  const dateFormat = resolveDateFormat(
+      sheet.rows.map(row => row[dateIndex]), config.dateFormat);
+
+  sheet.rows.forEach((row, i) => {
+    if (i % progressInterval === 0) {
+      onProgress('Reading transactions', i / sheet.rows.length);
+    }
+    if (isBlankRow(row)) return;
+
+    const rowNumber = (sheet.firstRowNumber || 2) + i;
+    const content = row.map(cell => formatCell(cell)).join(' | ');
+    const report = (reason: string) =>
+        issues.push({rowNumber, reason, content});
+
+    if (row[dateIndex] === undefined || row[dateIndex] === '') {
+      report('No date');
+      return;
+    }
+
+    const date = parseDate(row[dateIndex], dateFormat);
+    if (!date) {
+      report(`Invalid date "${formatCell(row[dateIndex])}" (expected ${
+          config.dateFormat === 'auto' ? 'a date' : config.dateFormat})`);
+      return;
+    }
+
+    const description = row[purposeIndex] || 'Unknown';
+    const recipient = row[recipientIndex] || 'Unknown';
+    const currency =
+        normalizeCurrency(String(row[currencyIndex] ?? '')) ||
+        accountCurrency;
+
+    // Empty amount cells are normal (e.g. no income on an expense row),
+    // unreadable ones are reported and yield NaN
+    const readAmount = (index: number): number => {
+      if (index === -1 || String(row[index] ?? '').trim() === '') return 0;
+      const amount = parseAmount(row[index], config);
+      if (amount === null) {
+        report(`Could not read amount "${row[index]}"`);
+        return NaN;
+      }
+      return amount;
+    };
+
+    let change: number;
+    if (hasSignedAmount) {
+      // Single amount column with +/- values (Erste Bank)
+      const amount = readAmount(incomeIndex);
+      if (amount === 0) {
+        report('Amount is empty or zero');
+      } else if (!isNaN(amount)) {
+        transactions.push({
+          date,
+          amount: Math.abs(amount),
+          description,
+          recipient,
+          type: amount > 0 ? 'income' : 'expense',
+          currency
+        });
+      }
+      change = amount;
+    } else {
+      // Separate income and expense columns; the column decides the type,
+      // whatever sign the bank writes the amount with
+      const income = readAmount(incomeIndex);
+      const expense = readAmount(expenseIndex);
+      if (income !== 0 && !isNaN(income)) {
+        transactions.push({
+          date,
+          amount: Math.abs(income),
+          description,
+          recipient,
+          type: 'income',
+          currency
+        });
+      }
+      if (expense !== 0 && !isNaN(expense)) {
+        transactions.push({
+          date,
+          amount: Math.abs(expense),
+          description,
+          recipient,
+          type: 'expense',
+          currency
+        });
+      }
+      if (income === 0 && expense === 0) {
+        report('Income and expense are both empty or zero');
+      }
+      change = Math.abs(income) - Math.abs(expense);
+    }
+
+    // Rows with an unreadable amount or balance can't be checked; the next
+    // row's check then shows the gap
+    const balance =
+        balanceIndex === -1 ? null : parseAmount(row[balanceIndex], config);
+    if (balance !== null && !isNaN(change)) {
+      balanceRows.push({rowNumber, date, change, balance, content});
+    }
+  });
+
+  return {transactions, issues, balanceRows};
+}
@@ -0,0 +1,73 @@
+import {describe, expect, it} from 'vitest';
+
+import {findTransfers, OwnAccount} from './transfers';
+import {Transaction} from './types';
+
+function transaction(
+    type: Transaction['type'], day: number,
+    fields: Partial<Transaction> = {}): Transaction {
+  return {
+    date: new Date(2025, 2, day),
+    amount: 500,
+    description: 'Payment',
+    recipient: 'Someone',
+    type,
+    currency: 'EUR',
+    ...fields
+  };
+}
+
+const savings: OwnAccount =
+    {name: 'Savings', iban: 'SI56 1111 2222', aliases: ['My Savings']};
+
+describe('findTransfers', () => {
+  it('pairs an expense and an income that name an own account', () => {
+    const expense = transaction(
+        'expense', 4,
+        {recipient: 'MY SAVINGS', bank: 'NLB', account: 'SI56333'});
+    const income = transaction('income', 5, {bank: 'NLB', account: 'SI56111'});
+    const other = transaction('income', 5, {recipient: 'Employer'});
+    expect(findTransfers([expense, income, other], [savings]))
+        .toEqual(new Set([expense, income]));
+  });
+
+  it('does not pair two sides of the same account', () => {
+    const expense = transaction(
+        'expense', 4, {recipient: 'Savings', bank: 'NLB', file: 'a.csv'});
+    const income =
+        transaction('income', 5, {bank: 'NLB', file: 'a.csv'});
+    expect(findTransfers([expense, income], [savings]).size).toBe(0);
+  });
+
+  it('tells spreadsheet accounts at one bank apart by their file', () => {
+    const expense = transaction(
+        'expense', 4, {recipient: 'Savings', bank: 'NLB', file: 'a.csv'});
+    const income = transaction('income', 5, {bank: 'NLB', file: 'b.csv'});
+    expect(findTransfers([expense, income], [savings]))
+        .toEqual(new Set([expense, income]));
+  });
+
+  it('leaves sides too far apart or in other amounts', () => {
+    const expense =
+        transaction('expense', 1, {recipient: 'Savings', account: 'A'});
+    const late = transaction('income', 8, {account: 'B'});
+    const otherAmount = transaction('income', 2, {account: 'B', amount: 499});
+    expect(findTransfers([expense, late, otherAmount], [savings]).size)
+        .toBe(0);
+  });
+
+  it('counts a payment to an own IBAN on its own', () => {
+    const expense =
+        transaction('expense', 4, {counterpartyIban: 'si5611112222'});
+    expect(findTransfers([expense], [savings])).toEqual(new Set([expense]));
+  });
+
+  it('takes the closest income in time', () => {
+    const expense =
+        transaction('expense', 4, {recipient: 'Savings', account: 'A'});
+    const far = transaction('income', 1, {account: 'B'});
+    const near = transaction('income', 5, {account: 'B'});
+    expect(findTransfers([expense, far, near], [savings]))
+        .toEqual(new Set([expense, near]));
+  });
+});
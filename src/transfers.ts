@@ -0,0 +1,87 @@
+import {dayMs} from './date';
+import {Transaction} from './types';
+
+// One of the user's own accounts. Names and aliases are matched against the
+// other side of a transaction, e.g. the name a bank shows for a transfer to
+// yourself.
+export interface OwnAccount {
+  name: string;
+  iban: string;
+  aliases: string[];
+}
+
+// How far apart the two sides of a transfer may be booked
+export const transferWindowDays = 3;
+
+export function normalizeIban(iban: string): string {
+  return iban.replace(/\s+/g, '').toUpperCase();
+}
+
+// Finds transactions that move money between the user's own accounts: an
+// expense and an income of the same amount and currency, from different
+// accounts and a few days apart, where one side names an own account. A
+// payment to the IBAN of an own account counts even when the other
+// statement isn't loaded.
+export function findTransfers(
+    transactions: Transaction[], ownAccounts: OwnAccount[]): Set<Transaction> {
+  const ownIbans = new Set(
+      [
+        ...ownAccounts.map(a => a.iban),
+        ...transactions.map(t => t.account || '')
+      ].map(normalizeIban)
+          .filter(iban => iban !== ''));
+  const ownNames =
+      ownAccounts.flatMap(a => [a.name, ...a.aliases])
+          .map(name => name.trim().toUpperCase())
+          .filter(name => name !== '');
+
+  const isToOwnIban = (t: Transaction) =>
+      !!t.counterpartyIban && ownIbans.has(normalizeIban(t.counterpartyIban));
+  const namesOwnAccount = (t: Transaction) => isToOwnIban(t) ||
+      ownNames.some(
+          name => t.recipient.toUpperCase().includes(name) ||
+              t.description.toUpperCase().includes(name));
+
+  const transfers = new Set<Transaction>(transactions.filter(isToOwnIban));
+
+  // Incomes waiting for their expense, by currency and amount
+  const incomes = new Map<string, Transaction[]>();
+  const getAmountKey = (t: Transaction) =>
+      `${t.currency || ''}|${t.amount.toFixed(2)}`;
+  transactions.filter(t => t.type === 'income').forEach(t => {
+    const key = getAmountKey(t);
+    if (!incomes.has(key)) incomes.set(key, []);
+    incomes.get(key)!.push(t);
+  });
+
+  // Spreadsheets don't name their account, so their file stands in for it
+  const getSource = (t: Transaction) =>
+      `${t.bank || ''}|${t.account || t.file || ''}`;
+  const getDistance = (a: Transaction, b: Transaction) =>
+      Math.abs(a.date.getTime() - b.date.getTime());
+  transactions.filter(t => t.type === 'expense').forEach(expense => {
+    const key = getAmountKey(expense);
+    const isCounterpart = (income: Transaction) =>
+        getSource(income) !== getSource(expense) &&
+        getDistance(income, expense) <= transferWindowDays * dayMs &&
+        (namesOwnAccount(expense) || namesOwnAccount(income));
+    const candidates = (incomes.get(key) || []).filter(isCounterpart);
+    if (candidates.length === 0) return;
+
+    // The closest income in time is the other side
+    const match = candidates.reduce(
+        (a, b) => getDistance(b, expense) < getDistance(a, expense) ? b : a);
+    incomes.set(key, incomes.get(key)!.filter(income => income !== match));
+    transfers.add(expense);
+    transfers.add(match);
+  });
+
+  return transfers;
+}
+
+export function isOwnAccount(value: any): value is OwnAccount {
+  return !!value && typeof value === 'object' &&
+      typeof value.name === 'string' && typeof value.iban === 'string' &&
+      Array.isArray(value.aliases) &&
+      value.aliases.every((alias: any) => typeof alias === 'string');
+}
@@ -0,0 +1,87 @@
+import {getDateKey} from './date';
+import {Transaction} from './types';
+
+// One category's expenses in every month of the history
+export interface CategoryTrend {
+  category: string;
+  amounts: number[];  // One per month, in the order of `Trends.months`
+  // Percent change from the month before, null when that month had none
+  changes: (number|null)[];
+  average: number;
+  min: number;
+  max: number;
+}
+
+export interface Trends {
+  months: string[];  // YYYY-MM, with no gaps
+  income: number[];
+  expense: number[];
+  categories: CategoryTrend[];  // Biggest total first
+}
+
+// Adds up income and expenses per month, from the first month with a
+// transaction to the last. Months without any count as zero, so averages
+// and minimums include them.
+export function getTrends(
+    transactions: Transaction[],
+    getCategory: (t: Transaction) => string): Trends {
+  if (transactions.length === 0) {
+    return {months: [], income: [], expense: [], categories: []};
+  }
+
+  // Spreading a long history into Math.min would overflow the stack
+  const first = transactions.reduce(
+      (date, t) => t.date.getTime() < date.getTime() ? t.date : date,
+      transactions[0].date);
+  const last = transactions.reduce(
+      (date, t) => t.date.getTime() > date.getTime() ? t.date : date,
+      transactions[0].date);
+  const months: string[] = [];
+  for (let date = new Date(first.getFullYear(), first.getMonth(), 1);
+       date.getTime() <= last.getTime();
+       date = new Date(date.getFullYear(), date.getMonth() + 1, 1)) {
+    months.push(getMonthKey(date));
+  }
+  const indexes = new Map(months.map((month, i) => [month, i]));
+
+  const income = months.map(() => 0);
+  const expense = months.map(() => 0);
+  const byCategory = new Map<string, number[]>();
+  transactions.forEach(t => {
+    const i = indexes.get(getMonthKey(t.date))!;
+    if (t.type === 'income') {
+      income[i] += t.amount;
+      return;
+    }
+    expense[i] += t.amount;
+    const category = getCategory(t);
+    if (!byCategory.has(category)) {
+      byCategory.set(category, months.map(() => 0));
+    }
+    byCategory.get(category)![i] += t.amount;
+  });
+
+  const categories = Array.from(byCategory.entries())
+      .map(([category, amounts]) => ({
+             category,
+             amounts,
+             changes: amounts.map(
+                 (amount, i) => i > 0 && amounts[i - 1] > 0 ?
+                     (amount - amounts[i - 1]) / amounts[i - 1] * 100 :
+                     null),
+             average: sum(amounts) / amounts.length,
+             min: amounts.reduce((a, b) => Math.min(a, b)),
+             max: amounts.reduce((a, b) => Math.max(a, b))
+           }))
+      .sort((a, b) => sum(b.amounts) - sum(a.amounts));
+
+  return {months, income, expense, categories};
+}
+
+function sum(amounts: number[]): number {
+  return amounts.reduce((total, amount) => total + amount, 0);
+}
+
+function getMonthKey(date: Date): string {
+  return getDateKey(date).slice(0, 7);
+}
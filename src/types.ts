@@ -0,0 +1,71 @@
+import {NumberFormat} from './amount';
+import {TextEncoding} from './encoding';
+
+export interface Transaction {
+  date: Date;
+  amount: number;
+  description: string;
+  recipient: string;
+  type: 'income'|'expense';
+  account?: string;  // IBAN of the statement's own account
+  currency?: string;  // ISO 4217 code
+  bank?: string;      // Name of the bank or statement format it came from
+  file?: string;      // Name of the file it was imported from
+  counterpartyIban?: string;
+  tags?: string[];  // Lower case, without the leading "#"
+  note?: string;
+}
+
+// Account details from structured statements (camt) that carry them
+export interface AccountStatement {
+  iban: string;
+  currency: string;
+  openingBalance?: number;
+  closingBalance?: number;
+}
+
+export interface ParsedStatement {
+  accounts: AccountStatement[];
+  transactions: Transaction[];
+  issues?: RowIssue[];  // Entries that didn't become transactions
+}
+
+export interface ParsedData {
+  sheetName: string;
+  headers: string[];
+  rows: any[][];
+  firstRowNumber?: number;  // Spreadsheet row number of rows[0]
+  rowCount?: number;  // Of the whole sheet, when `rows` is only a preview
+}
+
+// A statement row that didn't become a transaction, or whose balance doesn't
+// add up
+export interface RowIssue {
+  rowNumber?: number;  // Missing for problems with the statement as a whole
+  reason: string;
+  content: string;
+}
+
+// A statement row's effect on the account balance, in file order
+export interface BalanceRow {
+  rowNumber: number;
+  date: Date;
+  change: number;   // Income minus expense
+  balance: number;  // Balance the statement reports after the row
+  content: string;
+}
+
+export interface BankConfig extends NumberFormat {
+  name: string;
+  logo: string;
+  dateColumn: string;
+  incomeColumn: string;
+  expenseColumn: string;
+  descriptionColumn: string;
+  recipientColumn: string;
+  dateFormat: string;
+  currency: string;         // Account currency, for rows that don't name one
+  currencyColumn?: string;
+  balanceColumn?: string;   // Running balance after each row
+  encoding?: TextEncoding;  // Used when the file's encoding is ambiguous
+}